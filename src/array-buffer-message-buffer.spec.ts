@@ -38,4 +38,17 @@ describe('array message buffer tests', () => {
         expect(reader.readString()).equal('this is a string');
         expect(reader.readString()).equal('another string');
     })
+
+    it('read slices independently', () => {
+        const writer = new ArrrayBufferWriteBuffer();
+        writer.writeByte(8).writeString('first').writeString('second');
+        const reader = new ArrayBufferReadBuffer(writer.getCurrentContents());
+        reader.readByte();
+
+        const slice = reader.sliceAtReadPosition();
+        expect(reader.readString()).equal('first');
+        expect(slice.readString()).equal('first');
+        expect(slice.readString()).equal('second');
+        expect(reader.readString()).equal('second');
+    });
 });
\ No newline at end of file
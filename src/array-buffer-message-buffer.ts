@@ -30,7 +30,6 @@ export class ArrrayBufferWriteBuffer implements WriteBuffer {
             newLength *= 2;
         }
         if (newLength !== this.buffer.byteLength) {
-            console.log("reallocating to " + newLength);
             const newBuffer = new Uint8Array(newLength);
             newBuffer.set(this.buffer);
             this.buffer = newBuffer;
@@ -89,8 +88,8 @@ export class ArrrayBufferWriteBuffer implements WriteBuffer {
         return this;
     }
 
-    private onCommitEmitter = new Emitter<ArrayBuffer>();
-    get onCommit(): Event<ArrayBuffer> {
+    private onCommitEmitter = new Emitter<Uint8Array>();
+    get onCommit(): Event<Uint8Array> {
         return this.onCommitEmitter.event;
     }
 
@@ -107,8 +106,9 @@ export class ArrayBufferReadBuffer implements ReadBuffer {
     private offset: number = 0;
     private msg;
 
-    constructor(private readonly buffer: Uint8Array) {
+    constructor(private readonly buffer: Uint8Array, readPosition = 0) {
         this.msg = new DataView(buffer.buffer);
+        this.offset = readPosition;
     }
 
     readByte(): number {
@@ -156,4 +156,14 @@ export class ArrayBufferReadBuffer implements ReadBuffer {
         this.offset += length;
         return result;
     }
+
+    readRemaining(): Uint8Array {
+        const result = this.buffer.slice(this.offset);
+        this.offset = this.buffer.byteLength;
+        return result;
+    }
+
+    sliceAtReadPosition(): ReadBuffer {
+        return new ArrayBufferReadBuffer(this.buffer, this.offset);
+    }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import {
+    AuthenticatedChannel, AuthenticationError, BearerTokenAuthenticator, BearerTokenCredentials, Principal, SharedSecretAuthenticator,
+    SharedSecretCredentials
+} from './authentication';
+import { ChannelMultiplexer, ChannelPipe } from './channel';
+import { JsonRpcConnectionHandler } from './connection-handler';
+import { RpcInterceptor } from './rpc-interceptor';
+import { RpcClient, RPCServer } from './rpc-protocol';
+import { connectToService, ServiceRouter } from './service-router';
+
+const tokens = new BearerTokenAuthenticator(token => token === 'valid' ? { name: 'alice' } : undefined);
+
+async function settle<T>(promise: Promise<T>): Promise<T | Error> {
+    return promise.then(value => value, (error: Error) => error);
+}
+
+describe('authentication', () => {
+    it('pass the principal to interceptors', async () => {
+        const pipe = new ChannelPipe();
+        const accepted = AuthenticatedChannel.accept(pipe.right, tokens);
+        const client = await AuthenticatedChannel.connect(pipe.left, new BearerTokenCredentials(async () => 'valid'));
+        const server = await accepted;
+        expect(server.principal).deep.equal({ name: 'alice' });
+
+        const principals: (Principal | undefined)[] = [];
+        const interceptor: RpcInterceptor = {
+            intercept: (context, next) => {
+                principals.push(context.principal);
+                return next();
+            }
+        };
+        new RPCServer(server, async () => 'done', undefined, { interceptors: [interceptor] });
+        expect(await new RpcClient(client).sendRequest('call', [])).equal('done');
+        expect(principals).deep.equal([{ name: 'alice' }]);
+    });
+
+    it('pass the principal to the targets of multiplexed services', async () => {
+        const pipe = new ChannelPipe();
+        const accepted = AuthenticatedChannel.accept(pipe.right, tokens);
+        const client = await AuthenticatedChannel.connect(pipe.left, new BearerTokenCredentials('valid'));
+        const router = new ServiceRouter([
+            new JsonRpcConnectionHandler('/whoami', (proxy, params, principal) => ({ whoami: () => principal?.name }))
+        ]);
+        router.listen(new ChannelMultiplexer(await accepted));
+
+        const { proxy } = await connectToService<{ whoami(): Promise<string> }>(new ChannelMultiplexer(client), '/whoami');
+        expect(await proxy.whoami()).equal('alice');
+    });
+
+    it('refuse invalid tokens', async () => {
+        const pipe = new ChannelPipe();
+        let closed = false;
+        pipe.left.onClose(() => closed = true);
+        const accepted = settle(AuthenticatedChannel.accept(pipe.right, tokens));
+        const connected = await settle(AuthenticatedChannel.connect(pipe.left, new BearerTokenCredentials('forged')));
+
+        for (const error of [connected, await accepted]) {
+            expect(error).instanceOf(AuthenticationError);
+            expect((error as AuthenticationError).reason).equal('invalid token');
+        }
+        expect(closed).equal(true);
+    });
+
+    it('authenticate with a shared secret', async () => {
+        const authenticator = new SharedSecretAuthenticator(name => name === 'builder' ? 'secret' : undefined);
+        for (const [name, secret, expected] of [['builder', 'secret', true], ['builder', 'guessed', false], ['unknown', 'secret', false]] as const) {
+            const pipe = new ChannelPipe();
+            const accepted = settle(AuthenticatedChannel.accept(pipe.right, authenticator));
+            const connected = await settle(AuthenticatedChannel.connect(pipe.left, new SharedSecretCredentials(name, secret)));
+            const server = await accepted;
+            if (expected) {
+                expect((server as AuthenticatedChannel).principal).deep.equal({ name });
+            } else {
+                expect(server).instanceOf(AuthenticationError);
+                expect(connected).instanceOf(AuthenticationError);
+            }
+        }
+    });
+
+    it('reject messages sent before the authentication', async () => {
+        const pipe = new ChannelPipe();
+        const reasons: string[] = [];
+        pipe.left.onMessage(buf => {
+            if (buf.readByte() === 2) {
+                reasons.push(buf.readString());
+            }
+        });
+        const accepted = settle(AuthenticatedChannel.accept(pipe.right, tokens));
+        pipe.left.getWriteBuffer().writeByte(3).writeString('sneaky').commit();
+
+        expect(await accepted).instanceOf(AuthenticationError);
+        expect(reasons).deep.equal(['received a message before authentication']);
+    });
+
+    it('time out the authentication', async () => {
+        const pipe = new ChannelPipe();
+        const error = await settle(AuthenticatedChannel.accept(pipe.right, tokens, { timeout: 10 }));
+        expect(error).instanceOf(AuthenticationError);
+        expect((error as AuthenticationError).reason).equal('no result after 10 ms');
+    });
+});
@@ -0,0 +1,370 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Channel } from './channel';
+import { Deferred, Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+/**
+ * The identity of an authenticated peer. Authenticators may return subtypes with more attributes.
+ */
+export interface Principal {
+    readonly name: string;
+}
+
+/**
+ * The messages exchanged between the two sides while a channel is authenticated
+ */
+export interface AuthenticationExchange {
+    send(message: string): void;
+    /**
+     * Resolves with the next message of the other side, or rejects if the authentication has failed
+     */
+    receive(): Promise<string>;
+}
+
+/**
+ * Authenticates the peer on the accepting side of a channel. Refuse the peer by throwing or rejecting:
+ * the message of the error is sent to the peer as the reason.
+ */
+export interface Authenticator {
+    authenticate(exchange: AuthenticationExchange): Promise<Principal>;
+}
+
+/**
+ * Provides the credentials of the connecting side of a channel to an {@link Authenticator}
+ */
+export interface CredentialsProvider {
+    provide(exchange: AuthenticationExchange): Promise<void>;
+}
+
+export interface AuthenticationOptions {
+    /**
+     * Time in ms after which the authentication fails. 30 seconds by default, zero or less disables the timeout.
+     */
+    timeout?: number;
+}
+
+/**
+ * The error of a failed authentication, on both sides of the channel
+ */
+export class AuthenticationError extends Error {
+    constructor(readonly reason: string) {
+        super(`Authentication failed: ${reason}`);
+        this.name = 'AuthenticationError';
+    }
+}
+
+enum AuthenticationFrameType {
+    Exchange = 0,
+    Accepted = 1,
+    Rejected = 2,
+    Data = 3
+}
+
+class MessageExchange implements AuthenticationExchange {
+    protected readonly received: string[] = [];
+    protected readonly waiting: Deferred<string>[] = [];
+    protected failure: Error | undefined;
+
+    constructor(protected readonly sender: (message: string) => void) {
+    }
+
+    send(message: string): void {
+        if (!this.failure) {
+            this.sender(message);
+        }
+    }
+
+    receive(): Promise<string> {
+        if (this.received.length) {
+            return Promise.resolve(this.received.shift()!);
+        }
+        if (this.failure) {
+            return Promise.reject(this.failure);
+        }
+        const deferred = new Deferred<string>();
+        this.waiting.push(deferred);
+        return deferred.promise;
+    }
+
+    push(message: string): void {
+        const waiting = this.waiting.shift();
+        if (waiting) {
+            waiting.resolve(message);
+        } else {
+            this.received.push(message);
+        }
+    }
+
+    fail(error: Error): void {
+        this.failure = error;
+        this.waiting.splice(0, this.waiting.length).forEach(deferred => deferred.reject(error));
+    }
+}
+
+/**
+ * A channel wrapper that authenticates the connecting side before any messages are passed on. Both ends
+ * of the underlying channel must be wrapped, one with {@link AuthenticatedChannel.accept} and the other with
+ * {@link AuthenticatedChannel.connect}. If the authentication fails, or the connecting side sends messages
+ * before it has been accepted, the accepting side sends the reason to the peer and closes the underlying channel.
+ * This module uses the Node.js `crypto` module, so both sides must run in Node.js.
+ */
+export class AuthenticatedChannel implements Channel {
+    protected authenticated = false;
+    protected closed = false;
+    protected authenticatedPrincipal: Principal | undefined;
+    protected readonly accepted = new Deferred<void>();
+    protected readonly exchange = new MessageExchange(message =>
+        this.underlying.getWriteBuffer().writeByte(AuthenticationFrameType.Exchange).writeString(message).commit());
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    /**
+     * Authenticates the peer of the given channel. The returned channel carries the principal of the peer.
+     * Rejects with an {@link AuthenticationError} if the peer is refused.
+     */
+    static async accept(underlying: Channel, authenticator: Authenticator, options: AuthenticationOptions = {}): Promise<AuthenticatedChannel> {
+        const channel = new AuthenticatedChannel(underlying, true);
+        await channel.withTimeout(channel.authenticate(authenticator), options.timeout);
+        return channel;
+    }
+
+    /**
+     * Authenticates to the peer of the given channel with the given credentials. Rejects with an
+     * {@link AuthenticationError} if we are refused.
+     */
+    static async connect(underlying: Channel, credentials: CredentialsProvider, options: AuthenticationOptions = {}): Promise<AuthenticatedChannel> {
+        const channel = new AuthenticatedChannel(underlying, false);
+        await channel.withTimeout(Promise.all([credentials.provide(channel.exchange), channel.accepted.promise]), options.timeout);
+        return channel;
+    }
+
+    protected constructor(protected readonly underlying: Channel, protected readonly accepting: boolean) {
+        // the outcome is reported by accept and connect
+        this.accepted.promise.catch(() => undefined);
+        underlying.onMessage(buffer => this.handleMessage(buffer));
+        underlying.onError(error => this.onErrorEmitter.fire(error));
+        underlying.onClose(() => {
+            if (!this.closed) {
+                this.closed = true;
+                this.fail(new AuthenticationError('the channel has been closed'));
+                if (this.authenticated) {
+                    this.onCloseEmitter.fire();
+                }
+            }
+        });
+    }
+
+    /**
+     * The authenticated peer, on the accepting side
+     */
+    get principal(): Principal | undefined {
+        return this.authenticatedPrincipal;
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        return this.underlying.getWriteBuffer().writeByte(AuthenticationFrameType.Data);
+    }
+
+    whenWritable(): Promise<void> {
+        return this.underlying.whenWritable ? this.underlying.whenWritable() : Promise.resolve();
+    }
+
+    close(): void {
+        if (!this.closed) {
+            this.closed = true;
+            this.fail(new AuthenticationError('the channel has been closed'));
+            this.underlying.close();
+        }
+    }
+
+    protected async authenticate(authenticator: Authenticator): Promise<void> {
+        try {
+            const principal = await authenticator.authenticate(this.exchange);
+            if (this.closed) {
+                throw new AuthenticationError('the channel has been closed');
+            }
+            this.authenticatedPrincipal = principal;
+            this.authenticated = true;
+            this.underlying.getWriteBuffer().writeByte(AuthenticationFrameType.Accepted).commit();
+        } catch (error) {
+            const reason = error instanceof AuthenticationError ? error.reason : error instanceof Error ? error.message : String(error);
+            this.reject(reason);
+            throw error instanceof AuthenticationError ? error : new AuthenticationError(reason);
+        }
+    }
+
+    protected async withTimeout<T>(promise: Promise<T>, timeout: number = 30000): Promise<T> {
+        if (timeout <= 0) {
+            return promise;
+        }
+        let handle: ReturnType<typeof setTimeout> | undefined;
+        const expired = new Promise<never>((resolve, reject) => {
+            handle = setTimeout(() => {
+                const reason = `no result after ${timeout} ms`;
+                this.reject(reason);
+                reject(new AuthenticationError(reason));
+            }, timeout);
+        });
+        try {
+            return await Promise.race([promise, expired]);
+        } finally {
+            clearTimeout(handle!);
+        }
+    }
+
+    /**
+     * Tells the peer why it has been refused and closes the channel
+     */
+    protected reject(reason: string): void {
+        if (!this.closed) {
+            // the peer may close the channel as soon as it gets the reason
+            this.closed = true;
+            if (this.accepting) {
+                this.underlying.getWriteBuffer().writeByte(AuthenticationFrameType.Rejected).writeString(reason).commit();
+            }
+            this.fail(new AuthenticationError(reason));
+            this.underlying.close();
+        }
+    }
+
+    protected fail(error: AuthenticationError): void {
+        this.exchange.fail(error);
+        this.accepted.reject(error);
+    }
+
+    protected handleMessage(buffer: ReadBuffer): void {
+        switch (buffer.readByte()) {
+            case AuthenticationFrameType.Exchange: {
+                const message = buffer.readString();
+                if (!this.authenticated) {
+                    this.exchange.push(message);
+                }
+                break;
+            }
+            case AuthenticationFrameType.Accepted: {
+                if (!this.accepting) {
+                    this.authenticated = true;
+                    this.accepted.resolve();
+                }
+                break;
+            }
+            case AuthenticationFrameType.Rejected: {
+                const error = new AuthenticationError(buffer.readString());
+                this.fail(error);
+                if (this.authenticated) {
+                    this.onErrorEmitter.fire(error);
+                    this.onCloseEmitter.fire();
+                }
+                this.close();
+                break;
+            }
+            case AuthenticationFrameType.Data: {
+                if (this.authenticated) {
+                    this.onMessageEmitter.fire(buffer);
+                } else if (this.accepting) {
+                    this.reject('received a message before authentication');
+                }
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Sends a bearer token, like an access token obtained from an identity provider
+ */
+export class BearerTokenCredentials implements CredentialsProvider {
+    constructor(protected readonly token: string | (() => string | Promise<string>)) {
+    }
+
+    async provide(exchange: AuthenticationExchange): Promise<void> {
+        exchange.send(typeof this.token === 'string' ? this.token : await this.token());
+    }
+}
+
+/**
+ * Accepts peers whose bearer token is valid. The validation returns the principal the token belongs to,
+ * or undefined if the token is invalid.
+ */
+export class BearerTokenAuthenticator implements Authenticator {
+    constructor(protected readonly validate: (token: string) => Principal | undefined | Promise<Principal | undefined>) {
+    }
+
+    async authenticate(exchange: AuthenticationExchange): Promise<Principal> {
+        const principal = await this.validate(await exchange.receive());
+        if (!principal) {
+            throw new AuthenticationError('invalid token');
+        }
+        return principal;
+    }
+}
+
+function hmac(secret: string, challenge: string): string {
+    return createHmac('sha256', secret).update(challenge).digest('hex');
+}
+
+/**
+ * Proves the knowledge of a shared secret without sending it: the peer sends a random challenge,
+ * which is answered with its HMAC-SHA256 under the secret.
+ */
+export class SharedSecretCredentials implements CredentialsProvider {
+    constructor(protected readonly name: string, protected readonly secret: string) {
+    }
+
+    async provide(exchange: AuthenticationExchange): Promise<void> {
+        exchange.send(this.name);
+        const challenge = await exchange.receive();
+        exchange.send(hmac(this.secret, challenge));
+    }
+}
+
+/**
+ * Accepts peers that know the secret shared with them, see {@link SharedSecretCredentials}.
+ * The principal is named after the name the peer has sent.
+ */
+export class SharedSecretAuthenticator implements Authenticator {
+    constructor(protected readonly lookupSecret: (name: string) => string | undefined | Promise<string | undefined>) {
+    }
+
+    async authenticate(exchange: AuthenticationExchange): Promise<Principal> {
+        const name = await exchange.receive();
+        const challenge = randomBytes(32).toString('hex');
+        exchange.send(challenge);
+        const response = Buffer.from(await exchange.receive());
+        const secret = await this.lookupSecret(name);
+        // compare in constant time, and the same way for unknown names
+        const expected = Buffer.from(hmac(secret ?? randomBytes(32).toString('hex'), challenge));
+        if (!secret || response.length !== expected.length || !timingSafeEqual(response, expected)) {
+            throw new AuthenticationError('invalid credentials');
+        }
+        return { name };
+    }
+}
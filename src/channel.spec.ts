@@ -16,8 +16,9 @@
 import { assert, expect, spy, use } from 'chai';
 import * as spies from 'chai-spies';
 
-import { ChannelMultiplexer, ChannelPipe } from './channel';
+import { ChannelMultiplexer, ChannelOpenTimeoutError, ChannelPipe, ChannelRefusedError, MessageTypes } from './channel';
 import { ReadBuffer } from './message-buffer';
+import { inspectRecording, MemoryRecordingSink, RecordingChannel } from './recording';
 
 use(spies);
 
@@ -66,4 +67,215 @@ describe('multiplexer test', () => {
 
         expect(openChannelSpy).to.be.called.exactly(4);
     })
+
+    it('address frames by channel number', async () => {
+        const pipe = new ChannelPipe();
+        const sink = new MemoryRecordingSink();
+        const leftMultiplexer = new ChannelMultiplexer(new RecordingChannel(pipe.left, sink));
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right);
+        await rightMultiplexer.open('other');
+        const left = await leftMultiplexer.open('channel');
+        const right = rightMultiplexer.getOpenChannel('channel')!;
+
+        const received: string[] = [];
+        left.onMessage(buf => received.push(buf.readString()));
+        right.getWriteBuffer().writeString('hello').commit();
+
+        expect(received).deep.equal(['hello']);
+        const headers = inspectRecording(sink.getContents(), { multiplexed: true }).map(frame => frame.multiplexer);
+        expect(headers).deep.equal([
+            { type: 'Hello' },
+            { type: 'Hello' },
+            { type: 'Hello' },
+            { type: 'Open', channel: 'other' },
+            { type: 'AckOpen', channel: 'other' },
+            { type: 'Open', channel: 'channel' },
+            { type: 'AckOpen', channel: 'channel' },
+            { type: 'Data', channel: 1 }
+        ]);
+    });
+
+    it('accept or refuse channels based on their metadata', async () => {
+        const pipe = new ChannelPipe();
+        const leftMultiplexer = new ChannelMultiplexer(pipe.left);
+        const requests: [string, any][] = [];
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right, {
+            acceptChannel: async (id, metadata) => {
+                requests.push([id, metadata]);
+                if (metadata?.token !== 'secret') {
+                    throw new Error('not authorized');
+                }
+            }
+        });
+
+        const channel = await leftMultiplexer.open('accepted', { metadata: { token: 'secret' } });
+        expect(rightMultiplexer.getOpenChannel('accepted')).not.equal(undefined);
+        expect(channel).equal(leftMultiplexer.getOpenChannel('accepted'));
+
+        const error = await leftMultiplexer.open('refused').then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(ChannelRefusedError);
+        expect((error as ChannelRefusedError).reason).equal('not authorized');
+        expect(rightMultiplexer.getOpenChannel('refused')).equal(undefined);
+        expect(requests).deep.equal([['accepted', { token: 'secret' }], ['refused', undefined]]);
+    });
+
+    it('time out opening a channel', async () => {
+        const pipe = new ChannelPipe();
+        const multiplexer = new ChannelMultiplexer(pipe.left, { openTimeout: 10 });
+        const error = await multiplexer.open('unanswered').then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(ChannelOpenTimeoutError);
+    });
+
+    it('refuse to open a channel that is still being opened', async () => {
+        const pipe = new ChannelPipe();
+        const multiplexer = new ChannelMultiplexer(pipe.left, { openTimeout: 10 });
+        const first = multiplexer.open('unanswered').then(() => undefined, (e: Error) => e);
+        const second = await multiplexer.open('unanswered').then(() => undefined, (e: Error) => e);
+        expect(second?.message).contains('already being opened');
+        expect(await first).instanceOf(ChannelOpenTimeoutError);
+    });
+
+    it('queue messages until the receiver grants credit', async () => {
+        const pipe = new ChannelPipe();
+        const multiplexer = new ChannelMultiplexer(pipe.left);
+        const received: string[] = [];
+        pipe.right.onMessage(buf => {
+            if (buf.readByte() === MessageTypes.Data) {
+                expect(buf.readLength()).equal(7);
+                received.push(buf.readBytes().length.toString());
+            }
+        });
+
+        const opened = multiplexer.open('flow');
+        pipe.right.getWriteBuffer().writeByte(MessageTypes.AckOpen).writeString('flow').writeLength(7).writeInt(100).commit();
+        const channel = await opened;
+
+        const message = 'x'.repeat(56);
+        for (let i = 0; i < 3; i++) {
+            channel.getWriteBuffer().writeString(message).commit();
+        }
+        // the second message exceeds the credit, the third one has to wait
+        expect(received).deep.equal(['60', '60']);
+        let ready = false;
+        channel.whenWritable!().then(() => ready = true);
+        await Promise.resolve();
+        expect(ready).equal(false);
+
+        pipe.right.getWriteBuffer().writeByte(MessageTypes.Credit).writeLength(0).writeInt(100).commit();
+        expect(received).deep.equal(['60', '60', '60']);
+        await Promise.resolve();
+        expect(ready).equal(true);
+    });
+
+    it('grant credit for processed messages', async () => {
+        const pipe = new ChannelPipe();
+        const leftMultiplexer = new ChannelMultiplexer(pipe.left, { windowSize: 100 });
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right, { windowSize: 100 });
+        const left = await leftMultiplexer.open('flow');
+        const right = rightMultiplexer.getOpenChannel('flow')!;
+        const received: string[] = [];
+        right.onMessage(buf => received.push(buf.readString()));
+
+        for (let i = 0; i < 10; i++) {
+            left.getWriteBuffer().writeString(`message ${i}`.padEnd(40)).commit();
+        }
+        expect(received.length).equal(10);
+        await left.whenWritable!();
+    });
+
+    it('fragment large messages', async () => {
+        const pipe = new ChannelPipe();
+        const sink = new MemoryRecordingSink();
+        const leftMultiplexer = new ChannelMultiplexer(new RecordingChannel(pipe.left, sink), { maxFragmentSize: 1000 });
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right);
+        const left = await leftMultiplexer.open('large');
+        const received = new Promise<Uint8Array>(resolve => rightMultiplexer.getOpenChannel('large')!.onMessage(buf => resolve(buf.readBytes())));
+
+        const data = new Uint8Array(4500).map((value, index) => index % 256);
+        left.getWriteBuffer().writeBytes(data).commit();
+
+        expect(await received).deep.equal(data);
+        const frames = inspectRecording(sink.getContents(), { multiplexed: true })
+            .filter(frame => frame.direction === 'out' && frame.multiplexer?.channel === 0);
+        expect(frames.map(frame => frame.multiplexer!.type)).deep.equal(['Fragment', 'Fragment', 'Fragment', 'Fragment', 'Data']);
+    });
+
+    it('interleave fragments with the messages of other channels', async () => {
+        const pipe = new ChannelPipe();
+        const leftMultiplexer = new ChannelMultiplexer(pipe.left, { maxFragmentSize: 100 });
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right);
+        const received: string[] = [];
+        const channels = await Promise.all(['large', 'larger', 'small'].map(async id => {
+            const channel = await leftMultiplexer.open(id);
+            rightMultiplexer.getOpenChannel(id)!.onMessage(() => received.push(id));
+            return channel;
+        }));
+        const [large, larger, small] = channels;
+
+        larger.getWriteBuffer().writeBytes(new Uint8Array(3000)).commit();
+        large.getWriteBuffer().writeBytes(new Uint8Array(1000)).commit();
+        small.getWriteBuffer().writeString('interactive').commit();
+        expect(received).deep.equal(['small']);
+
+        while (received.length < 3) {
+            await new Promise(resolve => setTimeout(resolve, 1));
+        }
+        // the fragments of both large messages are sent in turns
+        expect(received).deep.equal(['small', 'large', 'larger']);
+    });
+
+    it('report errors sending fragments to the failing channel only', async () => {
+        const pipe = new ChannelPipe();
+        const leftMultiplexer = new ChannelMultiplexer(pipe.left, { maxFragmentSize: 100 });
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right);
+        const [failing, other] = await Promise.all([leftMultiplexer.open('failing'), leftMultiplexer.open('other')]);
+        const errors: string[] = [];
+        failing.onError(() => errors.push('failing'));
+        other.onError(() => errors.push('other'));
+        const received = new Promise<Uint8Array>(resolve => rightMultiplexer.getOpenChannel('other')!.onMessage(buf => resolve(buf.readBytes())));
+
+        const getWriteBuffer = pipe.left.getWriteBuffer.bind(pipe.left);
+        let fail = true;
+        pipe.left.getWriteBuffer = () => {
+            if (fail) {
+                fail = false;
+                throw new Error('write failed');
+            }
+            return getWriteBuffer();
+        };
+        failing.getWriteBuffer().writeBytes(new Uint8Array(1000)).commit();
+        other.getWriteBuffer().writeBytes(new Uint8Array(1000)).commit();
+
+        expect((await received).byteLength).equal(1000);
+        expect(errors).deep.equal(['failing']);
+    });
+
+    it('receive fragmented messages larger than the window', async () => {
+        const pipe = new ChannelPipe();
+        const leftMultiplexer = new ChannelMultiplexer(pipe.left, { maxFragmentSize: 100 });
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right, { windowSize: 1000 });
+        const left = await leftMultiplexer.open('large');
+        const received = new Promise<Uint8Array>(resolve => rightMultiplexer.getOpenChannel('large')!.onMessage(buf => resolve(buf.readBytes())));
+
+        left.getWriteBuffer().writeBytes(new Uint8Array(3000)).commit();
+        expect((await received).byteLength).equal(3000);
+    });
+
+    it('fail channels receiving messages larger than the maximum message size', async () => {
+        const pipe = new ChannelPipe();
+        const leftMultiplexer = new ChannelMultiplexer(pipe.left, { maxFragmentSize: 100 });
+        const rightMultiplexer = new ChannelMultiplexer(pipe.right, { maxMessageSize: 1000 });
+        const left = await leftMultiplexer.open('large');
+        const right = rightMultiplexer.getOpenChannel('large')!;
+        const received = spy(() => { });
+        right.onMessage(received);
+        const error = new Promise<Error>(resolve => right.onError(resolve));
+        const closed = new Promise<void>(resolve => left.onClose(resolve));
+
+        left.getWriteBuffer().writeBytes(new Uint8Array(2000)).commit();
+        expect((await error).message).contains('larger than 1000 bytes');
+        await closed;
+        expect(received).not.called();
+        expect(rightMultiplexer.getOpenChannel('large')).undefined;
+    });
 });
\ No newline at end of file
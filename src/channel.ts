@@ -14,8 +14,12 @@
  * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
  ********************************************************************************/
 import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
-import { Emitter, Event } from './env/event';
+import { Deferred, Disposable, Emitter, Event } from './env/event';
 import { ReadBuffer, WriteBuffer } from './message-buffer';
+import { MessageDecoder, MessageEncoder } from './message-encoder';
+import { Principal } from './authentication';
+import { Handshake, HandshakeResult, readProtocolInfo, writeProtocolInfo } from './handshake';
+import { Heartbeat, HeartbeatOptions } from './heartbeat';
 
 /**
  * A channel is a bidirectinal communications channel with lifecycle and
@@ -39,24 +43,63 @@ export interface Channel {
      * Obtain a {@link WriteBuffer} to write a message to the channel.
      */
     getWriteBuffer(): WriteBuffer;
+    /**
+     * Resolves when messages written to the channel are sent right away instead of being queued.
+     * Writers producing many messages can await it to respect the capacity of the receiver.
+     * Channels without flow control don't need to implement this.
+     */
+    whenWritable?(): Promise<void>;
+    /**
+     * The authenticated peer, for channels on connections authenticated with an {@link AuthenticatedChannel}
+     */
+    readonly principal?: Principal;
     /**
      * Close this channel. No {@link onClose} event should be sent
      */
     close(): void;
 }
 
-enum MessageTypes {
+/**
+ * The frame types of the {@link ChannelMultiplexer} wire format. Each frame starts with
+ * the frame type. `Open` and `AckOpen` frames continue with the name of the channel, the number
+ * of the channel on the sending side and the receive window of the sender. `Open` frames end with
+ * the metadata of the channel. `Refuse` frames continue with the name of the channel and the reason
+ * for the refusal. `Hello` frames are sent by both sides when the multiplexer is created, they
+ * continue with a flag telling whether they answer a hello and the protocol info of the sender.
+ * `Ping` and `Pong` frames carry the time the ping was sent. All other frames continue with the number of the channel on the receiving side. `Data` frames carry the message bytes and
+ * `Credit` frames carry the number of bytes the receiver has processed since the last credit.
+ * Large messages are split into `Fragment` frames carrying parts of the message bytes, followed by a
+ * `Data` frame with the last part.
+ */
+export enum MessageTypes {
     Open = 1,
     Close = 2,
     AckOpen = 3,
-    Data = 4
+    Data = 4,
+    Credit = 5,
+    Refuse = 6,
+    Hello = 7,
+    Ping = 8,
+    Pong = 9,
+    Fragment = 10
 }
 
+/**
+ * The version of the multiplexer frame format
+ */
+const MULTIPLEXER_VERSION = 2;
+/**
+ * The oldest frame format we can talk to. Version 1 has no `Fragment` frames.
+ */
+const MIN_MULTIPLEXER_VERSION = 1;
+const FRAGMENTATION_VERSION = 2;
+
 /**
  * Helper class to implement the single channels on a {@link ChannelMultiplexer}
  */
 class ForwardingChannel implements Channel {
-    constructor(private readonly closeHander: () => void, private readonly writeBufferSource: () => WriteBuffer) {
+    constructor(private readonly closeHander: () => void, private readonly writeBufferSource: () => WriteBuffer,
+        private readonly writableSource?: () => Promise<void>) {
     }
 
     onCloseEmitter: Emitter<void> = new Emitter();
@@ -76,30 +119,362 @@ class ForwardingChannel implements Channel {
         return this.writeBufferSource();
     }
 
+    whenWritable(): Promise<void> {
+        return this.writableSource ? this.writableSource() : Promise.resolve();
+    }
+
     close() {
         this.closeHander();
     }
 }
 
+export interface ChannelMultiplexerOptions {
+    /**
+     * The number of bytes the remote side may send on a channel before it has to wait for us
+     * to process them. 1 MB by default.
+     */
+    windowSize?: number;
+    /**
+     * Time in ms after which opening a channel fails if the remote side hasn't answered.
+     * 30 seconds by default, zero or less disables the timeout.
+     */
+    openTimeout?: number;
+    /**
+     * Decides whether a channel opened by the remote side is accepted. Refuse a channel by throwing
+     * or rejecting: the message of the error is sent to the opener as the reason. All channels are
+     * accepted by default.
+     */
+    acceptChannel?: (id: string, metadata: any) => void | Promise<void>;
+    /**
+     * Messages larger than this number of bytes are split into fragments, which are sent in turns with
+     * the messages of other channels. 64 KB by default.
+     */
+    maxFragmentSize?: number;
+    /**
+     * The largest fragmented message the remote side may send on a channel. A channel receiving a larger
+     * one fails. 256 MB by default.
+     */
+    maxMessageSize?: number;
+    /**
+     * Enables sending heartbeats to the remote multiplexer. If it misses too many beats, all channels
+     * get a {@link HeartbeatTimeoutError} and are closed. Pings are answered in any case.
+     */
+    heartbeat?: HeartbeatOptions;
+}
+
+export interface ChannelOpenOptions {
+    /**
+     * Any value supported by the {@link MessageEncoder}, passed to the acceptance check of the remote side
+     */
+    metadata?: any;
+    /**
+     * Overrides the open timeout of the multiplexer
+     */
+    timeout?: number;
+}
+
+/**
+ * The error the opener of a channel gets when the remote side refuses the channel
+ */
+export class ChannelRefusedError extends Error {
+    constructor(readonly channelId: string, readonly reason: string) {
+        super(`Channel '${channelId}' was refused: ${reason}`);
+        this.name = 'ChannelRefusedError';
+    }
+}
+
+/**
+ * The error the opener of a channel gets when the remote side doesn't answer in time
+ */
+export class ChannelOpenTimeoutError extends Error {
+    constructor(readonly channelId: string, readonly timeout: number) {
+        super(`Opening channel '${channelId}' timed out after ${timeout} ms`);
+        this.name = 'ChannelOpenTimeoutError';
+    }
+}
+
+/**
+ * The flow control state of a single multiplexed channel. The send credit is the number of bytes
+ * we may still send before the remote side grants more. A message is sent as long as there is any
+ * credit left, so messages larger than the window don't get stuck. Messages written without credit
+ * are queued until the remote side grants more.
+ */
+class ChannelWindow {
+    protected readonly queue: Uint8Array[] = [];
+    protected readonly waiting: Deferred<void>[] = [];
+    protected consumed = 0;
+
+    constructor(protected credit: number, protected readonly windowSize: number,
+        protected readonly send: (data: Uint8Array) => void, protected readonly grant: (credit: number) => void) {
+    }
+
+    get writable(): boolean {
+        return this.credit > 0 && this.queue.length === 0;
+    }
+
+    write(data: Uint8Array): void {
+        if (this.writable) {
+            this.credit -= data.byteLength;
+            this.send(data);
+        } else {
+            this.queue.push(data);
+        }
+    }
+
+    addCredit(credit: number): void {
+        this.credit += credit;
+        while (this.credit > 0 && this.queue.length > 0) {
+            const data = this.queue.shift()!;
+            this.credit -= data.byteLength;
+            this.send(data);
+        }
+        if (this.writable) {
+            this.releaseWaiting();
+        }
+    }
+
+    whenWritable(): Promise<void> {
+        if (this.writable) {
+            return Promise.resolve();
+        }
+        const deferred = new Deferred<void>();
+        this.waiting.push(deferred);
+        return deferred.promise;
+    }
+
+    /**
+     * Records that a received message has been processed. Credit is granted back to the remote
+     * side in chunks of half the window to avoid sending a credit frame for every message.
+     */
+    consume(size: number): void {
+        this.consumed += size;
+        if (this.consumed >= this.windowSize / 2) {
+            this.grant(this.consumed);
+            this.consumed = 0;
+        }
+    }
+
+    dispose(): void {
+        this.queue.length = 0;
+        this.releaseWaiting();
+    }
+
+    protected releaseWaiting(): void {
+        const waiting = this.waiting.splice(0, this.waiting.length);
+        waiting.forEach(deferred => deferred.resolve());
+    }
+}
+
+/**
+ * A channel opened on a {@link ChannelMultiplexer}, with the id it was opened with
+ */
+export interface NamedChannel extends Channel {
+    readonly id: string;
+}
+
+/**
+ * A channel on a {@link ChannelMultiplexer}. Each side of the multiplexer picks a number for the
+ * channel during the open handshake. Frames are addressed by the number picked by the receiver.
+ */
+class MultiplexedChannel extends ForwardingChannel implements NamedChannel {
+    /**
+     * The fragments of the message being received
+     */
+    readonly fragments: Uint8Array[] = [];
+    fragmentsSize = 0;
+
+    constructor(readonly id: string, readonly localNumber: number, readonly window: ChannelWindow, closeHandler: () => void, writeBufferSource: () => WriteBuffer,
+        readonly principal?: Principal) {
+        super(closeHandler, writeBufferSource, () => window.whenWritable());
+    }
+}
+
+/**
+ * Sends the data frames of the channels on a {@link ChannelMultiplexer}. Messages that fit into a single
+ * frame are sent right away. The frames of fragmented messages are queued per channel and sent in turns,
+ * one frame of each channel at a time, so concurrent large messages are interleaved. The scheduler
+ * yields after a number of frames, so small messages written in the meantime are sent in between.
+ */
+class FrameScheduler {
+    protected readonly queues: Map<number, (() => void)[]> = new Map();
+    protected running = false;
+
+    /**
+     * @param errorHandler called with the channel whose frames failed to be sent. The remaining frames of the channel are dropped.
+     */
+    constructor(protected readonly framesPerTurn: number, protected readonly whenWritable: () => Promise<void>,
+        protected readonly errorHandler: (channel: number, error: any) => void) {
+    }
+
+    /**
+     * Sends the given frames of a channel after all frames of the channel that are still queued
+     */
+    send(channel: number, frames: (() => void)[]): void {
+        const queue = this.queues.get(channel);
+        if (queue) {
+            queue.push(...frames);
+        } else if (frames.length === 1) {
+            frames[0]();
+        } else {
+            this.queues.set(channel, frames);
+            this.run().catch(error => {
+                // the underlying channel failed, which affects every channel still waiting to send
+                const waiting = [...this.queues.keys()];
+                this.queues.clear();
+                waiting.forEach(failed => this.errorHandler(failed, error));
+            });
+        }
+    }
+
+    /**
+     * Drops the queued frames of a channel
+     */
+    drop(channel: number): void {
+        this.queues.delete(channel);
+    }
+
+    dispose(): void {
+        this.queues.clear();
+    }
+
+    protected async run(): Promise<void> {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        try {
+            while (this.queues.size) {
+                let sent = 0;
+                while (sent < this.framesPerTurn && this.queues.size) {
+                    for (const [channel, queue] of [...this.queues]) {
+                        try {
+                            queue.shift()!();
+                        } catch (error) {
+                            this.queues.delete(channel);
+                            this.errorHandler(channel, error);
+                            continue;
+                        }
+                        sent++;
+                        if (!queue.length) {
+                            this.queues.delete(channel);
+                        }
+                    }
+                }
+                await new Promise(resolve => setTimeout(resolve, 0));
+                await this.whenWritable();
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((size, part) => size + part.byteLength, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.byteLength;
+    }
+    return result;
+}
+
+interface PendingOpen {
+    localNumber: number;
+    resolve: (channel: Channel) => void;
+    reject: (error: Error) => void;
+}
+
 /**
- * A class to encode/decode multiple channels over a single underlying {@link Channel}
- * The write buffers in this implementation immediately write to the underlying 
- * channel, so we rely on writers to the multiplexed channels to always commit their
- * messages and always in one go.
+ * A class to encode/decode multiple channels over a single underlying {@link Channel}.
+ * Channels are opened by name. The `Open` and `AckOpen` frames carry the name and the number
+ * the sender wants to see in the frames for that channel, all other frames only carry the number.
+ * Every channel has a send window: messages are written to the underlying channel as soon as
+ * they are committed while the remote side has granted enough credit, and are queued otherwise.
+ * Writers can await {@link Channel.whenWritable} to wait for the queue to drain.
+ * If the {@link handshake} with the remote multiplexer fails, no channels can be opened.
  */
 export class ChannelMultiplexer {
-    protected pendingOpen: Map<string, (channel: ForwardingChannel) => void> = new Map();
-    protected openChannels: Map<string, ForwardingChannel> = new Map();
+    protected pendingOpen: Map<string, PendingOpen> = new Map();
+    protected openChannels: Map<string, MultiplexedChannel> = new Map();
+    protected channelsByNumber: Map<number, MultiplexedChannel> = new Map();
+    protected nextChannelNumber = 0;
+    protected closed = false;
+    protected readonly encoder = new MessageEncoder();
+    protected readonly decoder = new MessageDecoder();
+    protected readonly handshakeState = new Handshake(() => ({
+        version: MULTIPLEXER_VERSION,
+        minVersion: MIN_MULTIPLEXER_VERSION,
+        encoderTags: this.encoder.tags,
+        decoderTags: this.decoder.tags
+    }));
 
-    protected readonly onOpenChannelEmitter: Emitter<Channel> = new Emitter<Channel>();
-    get onDidOpenChannel(): Event<Channel> {
+    protected readonly heartbeat: Heartbeat | undefined;
+    protected readonly scheduler = new FrameScheduler(16, () => this.underlyingChannel.whenWritable?.() ?? Promise.resolve(),
+        (channel, error) => this.channelsByNumber.get(channel)?.onErrorEmitter.fire(error));
+    protected readonly acceptanceChecks: ((id: string, metadata: any) => void | Promise<void>)[] = [];
+
+    protected readonly onOpenChannelEmitter: Emitter<NamedChannel> = new Emitter<NamedChannel>();
+    get onDidOpenChannel(): Event<NamedChannel> {
         return this.onOpenChannelEmitter.event;
     }
 
-    constructor(protected readonly underlyingChannel: Channel) {
+    constructor(protected readonly underlyingChannel: Channel, protected readonly options: ChannelMultiplexerOptions = {}) {
         this.underlyingChannel.onMessage(buffer => this.handleMessage(buffer));
         this.underlyingChannel.onClose(() => this.handleClose());
         this.underlyingChannel.onError(error => this.handleError(error))
+        this.sendHello(false);
+        if (options.acceptChannel) {
+            this.acceptanceChecks.push(options.acceptChannel);
+        }
+        if (options.heartbeat) {
+            this.heartbeat = new Heartbeat(options.heartbeat,
+                timestamp => this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Ping).writeNumber(timestamp).commit(),
+                error => {
+                    this.handleError(error);
+                    this.handleClose();
+                    this.underlyingChannel.close();
+                });
+            this.heartbeat.start();
+        }
+    }
+
+    /**
+     * The round trip time to the remote multiplexer in ms, if heartbeats are enabled
+     */
+    get roundTripTime(): number | undefined {
+        return this.heartbeat?.roundTripTime;
+    }
+
+    /**
+     * Resolves when the frame format version and the value tags for channel metadata have been agreed on
+     * with the remote multiplexer, or rejects with an {@link IncompatiblePeerError}.
+     */
+    get handshake(): Promise<HandshakeResult> {
+        return this.handshakeState.result;
+    }
+
+    /**
+     * Registers an additional check deciding whether a channel opened by the remote side is accepted,
+     * see {@link ChannelMultiplexerOptions.acceptChannel}. A channel is only accepted if all checks pass.
+     */
+    registerAcceptanceCheck(check: (id: string, metadata: any) => void | Promise<void>): Disposable {
+        this.acceptanceChecks.push(check);
+        return {
+            dispose: () => {
+                const index = this.acceptanceChecks.indexOf(check);
+                if (index >= 0) {
+                    this.acceptanceChecks.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    protected sendHello(reply: boolean): void {
+        const output = this.underlyingChannel.getWriteBuffer();
+        output.writeByte(MessageTypes.Hello).writeByte(reply ? 1 : 0);
+        writeProtocolInfo(output, this.handshakeState.local);
+        output.commit();
     }
 
     protected handleError(error: any): any {
@@ -109,83 +484,276 @@ export class ChannelMultiplexer {
     }
 
     protected handleClose(): any {
-        this.pendingOpen.clear();
+        this.closed = true;
+        this.heartbeat?.dispose();
+        this.scheduler.dispose();
+        this.rejectPendingOpens(id => new Error(`Channel '${id}' could not be opened: the underlying channel has been closed`));
         this.openChannels.forEach(channel => {
             channel.close();
         });
         this.openChannels.clear();
+        this.channelsByNumber.forEach(channel => channel.window.dispose());
+        this.channelsByNumber.clear();
+    }
+
+    protected rejectPendingOpens(error: (id: string) => Error): void {
+        const pending = [...this.pendingOpen.entries()];
+        this.pendingOpen.clear();
+        pending.forEach(([id, { reject }]) => reject(error(id)));
+    }
+
+    protected get windowSize(): number {
+        return this.options.windowSize ?? 1024 * 1024;
     }
 
     protected handleMessage(buffer: ReadBuffer): any {
+        this.heartbeat?.received();
         const type = buffer.readByte();
-        const id = buffer.readString();
         switch (type) {
+            case MessageTypes.Ping: {
+                this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Pong).writeNumber(buffer.readNumber()).commit();
+                break;
+            }
+            case MessageTypes.Pong: {
+                this.heartbeat?.pong(buffer.readNumber());
+                break;
+            }
+            case MessageTypes.Hello: {
+                const reply = buffer.readByte() === 1;
+                const info = readProtocolInfo(buffer);
+                if (!reply) {
+                    this.sendHello(true);
+                }
+                const error = this.handshakeState.complete(info);
+                if (error) {
+                    this.rejectPendingOpens(() => error);
+                }
+                break;
+            }
             case MessageTypes.AckOpen: {
+                const id = buffer.readString();
+                const remoteNumber = buffer.readLength();
                 // edge case: both side try to open a channel at the same time.
-                const resolve = this.pendingOpen.get(id);
-                if (resolve) {
-                    const channel = this.createChannel(id);
+                const pending = this.pendingOpen.get(id);
+                if (pending) {
+                    const channel = this.createChannel(id, pending.localNumber, remoteNumber, buffer.readInt());
                     this.pendingOpen.delete(id);
-                    this.openChannels.set(id, channel);
-                    resolve!(channel);
+                    pending.resolve(channel);
                     this.onOpenChannelEmitter.fire(channel);
+                } else if (!this.openChannels.has(id)) {
+                    // we have given up on opening the channel
+                    this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Close).writeLength(remoteNumber).commit();
                 }
                 break;
             }
             case MessageTypes.Open: {
-                if (!this.openChannels.has(id)) {
-                    const channel = this.createChannel(id);
-                    this.openChannels.set(id, channel);
-                    const resolve = this.pendingOpen.get(id);
-                    if (resolve) {
-                        // edge case: both side try to open a channel at the same time.
-                        resolve(channel);
+                const id = buffer.readString();
+                const remoteNumber = buffer.readLength();
+                const credit = buffer.readInt();
+                const metadata = this.decoder.readTypedValue(buffer);
+                if (this.handshakeState.error) {
+                    this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Refuse).writeString(id)
+                        .writeString(this.handshakeState.error.message).commit();
+                } else if (!this.openChannels.has(id)) {
+                    if (this.acceptanceChecks.length && !this.pendingOpen.has(id)) {
+                        this.checkAcceptance(id, remoteNumber, credit, metadata);
+                    } else {
+                        this.acceptChannel(id, remoteNumber, credit);
                     }
-                    this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.AckOpen).writeString(id).commit();
-                    this.onOpenChannelEmitter.fire(channel);
                 }
 
                 break;
             }
+            case MessageTypes.Refuse: {
+                const id = buffer.readString();
+                const reason = buffer.readString();
+                const pending = this.pendingOpen.get(id);
+                if (pending) {
+                    this.pendingOpen.delete(id);
+                    pending.reject(new ChannelRefusedError(id, reason));
+                }
+                break;
+            }
             case MessageTypes.Close: {
-                const channel = this.openChannels.get(id);
+                const channel = this.channelsByNumber.get(buffer.readLength());
                 if (channel) {
+                    this.scheduler.drop(channel.localNumber);
                     channel.onCloseEmitter.fire();
-                    this.openChannels.delete(id);
+                    this.removeChannel(channel);
+                }
+                break;
+            }
+            case MessageTypes.Fragment: {
+                const channel = this.channelsByNumber.get(buffer.readLength());
+                if (channel) {
+                    const fragment = buffer.readBytes();
+                    channel.fragmentsSize += fragment.byteLength;
+                    if (channel.fragmentsSize > this.maxMessageSize) {
+                        this.failChannel(channel, new Error(`Channel '${channel.id}' received a message larger than ${this.maxMessageSize} bytes`));
+                    } else {
+                        channel.fragments.push(fragment);
+                    }
                 }
                 break;
             }
             case MessageTypes.Data: {
-                const channel = this.openChannels.get(id);
+                const channel = this.channelsByNumber.get(buffer.readLength());
                 if (channel) {
-                    channel.onMessageEmitter.fire(buffer);
+                    let data = buffer.readBytes();
+                    if (channel.fragments.length) {
+                        data = concatBytes([...channel.fragments.splice(0, channel.fragments.length), data]);
+                        channel.fragmentsSize = 0;
+                    }
+                    channel.onMessageEmitter.fire(new ArrayBufferReadBuffer(data));
+                    channel.window.consume(data.byteLength);
                 }
                 break;
             }
+            case MessageTypes.Credit: {
+                this.channelsByNumber.get(buffer.readLength())?.window.addCredit(buffer.readInt());
+                break;
+            }
 
         }
     }
 
-    protected createChannel(id: string): ForwardingChannel {
-        return new ForwardingChannel(() => this.closeChannel(id), () => {
-            const underlying = this.underlyingChannel.getWriteBuffer();
-            underlying.writeByte(MessageTypes.Data);
-            underlying.writeString(id);
-            return underlying;
-        });
+    protected async checkAcceptance(id: string, remoteNumber: number, credit: number, metadata: any): Promise<void> {
+        try {
+            for (const check of [...this.acceptanceChecks]) {
+                await check(id, metadata);
+            }
+        } catch (error) {
+            if (!this.closed) {
+                const reason = error instanceof Error ? error.message : String(error);
+                this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Refuse).writeString(id).writeString(reason).commit();
+            }
+            return;
+        }
+        if (!this.closed && !this.openChannels.has(id)) {
+            this.acceptChannel(id, remoteNumber, credit);
+        }
+    }
+
+    protected acceptChannel(id: string, remoteNumber: number, credit: number): void {
+        const pending = this.pendingOpen.get(id);
+        const localNumber = pending ? pending.localNumber : this.nextChannelNumber++;
+        const channel = this.createChannel(id, localNumber, remoteNumber, credit);
+        if (pending) {
+            // edge case: both side try to open a channel at the same time.
+            this.pendingOpen.delete(id);
+            pending.resolve(channel);
+        }
+        this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.AckOpen).writeString(id).writeLength(localNumber)
+            .writeInt(this.windowSize).commit();
+        this.onOpenChannelEmitter.fire(channel);
+    }
+
+    /**
+     * Creates and registers a channel with the given initial send credit
+     */
+    protected createChannel(id: string, localNumber: number, remoteNumber: number, credit: number): MultiplexedChannel {
+        const window = new ChannelWindow(credit, this.windowSize,
+            data => this.sendData(localNumber, remoteNumber, data),
+            consumed => this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Credit).writeLength(remoteNumber).writeInt(consumed).commit());
+        // messages are buffered, since they may have to wait for credit or be fragmented. The buffers are as large
+        // as the largest message sent so far, up to the fragment size, so they rarely have to grow.
+        let bufferSize = 1024;
+        const channel: MultiplexedChannel = new MultiplexedChannel(id, localNumber, window, () => this.closeChannel(channel, remoteNumber), () => {
+            const message = new ArrrayBufferWriteBuffer(new Uint8Array(bufferSize));
+            message.onCommit(data => {
+                // the committed contents are a copy already
+                bufferSize = Math.max(bufferSize, Math.min(data.byteLength, this.maxFragmentSize));
+                window.write(data);
+            });
+            return message;
+        }, this.underlyingChannel.principal);
+        this.openChannels.set(id, channel);
+        this.channelsByNumber.set(localNumber, channel);
+        return channel;
+    }
+
+    /**
+     * Sends a message, split into fragments if it is too large and the remote multiplexer supports them
+     */
+    protected sendData(localNumber: number, remoteNumber: number, data: Uint8Array): void {
+        const frame = (type: MessageTypes, bytes: Uint8Array) => () => {
+            this.underlyingChannel.getWriteBuffer().writeByte(type).writeLength(remoteNumber).writeBytes(bytes).commit();
+        };
+        const frames: (() => void)[] = [];
+        const maxFragmentSize = this.maxFragmentSize;
+        let offset = 0;
+        if ((this.handshakeState.version ?? 0) >= FRAGMENTATION_VERSION) {
+            for (; data.byteLength - offset > maxFragmentSize; offset += maxFragmentSize) {
+                frames.push(frame(MessageTypes.Fragment, data.subarray(offset, offset + maxFragmentSize)));
+            }
+        }
+        frames.push(frame(MessageTypes.Data, offset ? data.subarray(offset) : data));
+        this.scheduler.send(localNumber, frames);
+    }
+
+    protected get maxFragmentSize(): number {
+        return this.options.maxFragmentSize ?? 64 * 1024;
+    }
+
+    protected get maxMessageSize(): number {
+        return this.options.maxMessageSize ?? 256 * 1024 * 1024;
+    }
+
+    protected closeChannel(channel: MultiplexedChannel, remoteNumber: number): void {
+        // the close frame must not overtake queued fragments
+        this.scheduler.send(channel.localNumber, [
+            () => this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Close).writeLength(remoteNumber).commit()
+        ]);
+        channel.onCloseEmitter.fire();
+        this.removeChannel(channel);
+    }
+
+    /**
+     * Closes a channel on which the remote side violated the protocol
+     */
+    protected failChannel(channel: MultiplexedChannel, error: Error): void {
+        channel.fragments.length = 0;
+        channel.onErrorEmitter.fire(error);
+        channel.close();
     }
 
-    protected closeChannel(id: string): void {
-        this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Close).writeString(id).commit();
-        this.openChannels.get(id)!.onCloseEmitter.fire();
-        this.openChannels.delete(id);
+    protected removeChannel(channel: MultiplexedChannel): void {
+        channel.window.dispose();
+        this.openChannels.delete(channel.id);
+        this.channelsByNumber.delete(channel.localNumber);
     }
 
-    open(id: string): Promise<Channel> {
+    /**
+     * Opens a channel with the given name. The promise is rejected with a {@link ChannelRefusedError}
+     * if the remote side refuses the channel, or with a {@link ChannelOpenTimeoutError} if it doesn't answer in time.
+     * A channel that is still being opened can't be opened again.
+     */
+    open(id: string, options: ChannelOpenOptions = {}): Promise<Channel> {
+        if (this.handshakeState.error) {
+            return Promise.reject(this.handshakeState.error);
+        }
+        if (this.pendingOpen.has(id)) {
+            return Promise.reject(new Error(`Channel '${id}' is already being opened`));
+        }
+        const localNumber = this.nextChannelNumber++;
         const result = new Promise<Channel>((resolve, reject) => {
-            this.pendingOpen.set(id, resolve);
+            this.pendingOpen.set(id, { localNumber, resolve, reject });
         });
-        this.underlyingChannel.getWriteBuffer().writeByte(MessageTypes.Open).writeString(id).commit();
+        const timeout = options.timeout ?? this.options.openTimeout ?? 30000;
+        if (timeout > 0) {
+            const handle = setTimeout(() => {
+                const pending = this.pendingOpen.get(id);
+                if (pending?.localNumber === localNumber) {
+                    this.pendingOpen.delete(id);
+                    pending.reject(new ChannelOpenTimeoutError(id, timeout));
+                }
+            }, timeout);
+            result.then(() => clearTimeout(handle), () => clearTimeout(handle));
+        }
+        const output = this.underlyingChannel.getWriteBuffer();
+        output.writeByte(MessageTypes.Open).writeString(id).writeLength(localNumber).writeInt(this.windowSize);
+        this.encoder.writeTypedValue(output, options.metadata);
+        output.commit();
         return result;
     }
 
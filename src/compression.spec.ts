@@ -0,0 +1,82 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { ChannelPipe } from './channel';
+import { CompressionChannel } from './compression';
+import { RpcClient, RPCServer } from './rpc-protocol';
+
+describe('compression channel', () => {
+    it('compress messages above the threshold', () => {
+        const pipe = new ChannelPipe();
+        const left = new CompressionChannel(pipe.left, { threshold: 100 });
+        const right = new CompressionChannel(pipe.right, { threshold: 100 });
+        expect(left.algorithm).equal('deflate');
+        expect(right.algorithm).equal('deflate');
+        const received: string[] = [];
+        right.onMessage(buf => received.push(buf.readString()));
+
+        const large = 'repetitive '.repeat(100);
+        left.getWriteBuffer().writeString('small').commit();
+        left.getWriteBuffer().writeString(large).commit();
+
+        expect(received).deep.equal(['small', large]);
+        const { sent } = left.stats;
+        expect(sent.messages).equal(2);
+        expect(sent.compressedMessages).equal(1);
+        expect(sent.ratio).lessThan(0.2);
+        expect(right.stats.received).deep.equal(sent);
+    });
+
+    it('drop messages that decompress to more than the maximum size', () => {
+        const pipe = new ChannelPipe();
+        const left = new CompressionChannel(pipe.left, { threshold: 100 });
+        const right = new CompressionChannel(pipe.right, { maxDecompressedSize: 1000 });
+        const received: string[] = [];
+        const errors: Error[] = [];
+        right.onMessage(buf => received.push(buf.readString()));
+        right.onError(error => errors.push(error));
+
+        left.getWriteBuffer().writeString('x'.repeat(500)).commit();
+        left.getWriteBuffer().writeString('x'.repeat(10000)).commit();
+
+        expect(received).deep.equal(['x'.repeat(500)]);
+        expect(errors).length(1);
+        expect(errors[0]).instanceOf(RangeError);
+    });
+
+    it('send uncompressed messages without a common algorithm', () => {
+        const pipe = new ChannelPipe();
+        const left = new CompressionChannel(pipe.left, { threshold: 0 });
+        const right = new CompressionChannel(pipe.right, { algorithms: [] });
+        expect(left.algorithm).equal(undefined);
+        const received: string[] = [];
+        right.onMessage(buf => received.push(buf.readString()));
+
+        left.getWriteBuffer().writeString('x'.repeat(1000)).commit();
+
+        expect(received).deep.equal(['x'.repeat(1000)]);
+        expect(left.stats.sent.compressedMessages).equal(0);
+        expect(left.stats.sent.ratio).equal(1);
+    });
+
+    it('carry rpc messages', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(new CompressionChannel(pipe.right, { threshold: 0 }), async (method, args) => args[0].length);
+        const client = new RpcClient(new CompressionChannel(pipe.left, { threshold: 0 }));
+
+        expect(await client.sendRequest('length', ['abc'.repeat(1000)])).equal(3000);
+    });
+});
@@ -0,0 +1,241 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { Principal } from './authentication';
+import { Channel } from './channel';
+import { Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+/**
+ * A compression algorithm, identified by its name during negotiation
+ */
+export interface CompressionAlgorithm {
+    readonly name: string;
+    compress(data: Uint8Array): Uint8Array;
+    /**
+     * Decompresses the given data. Throws if the result would be larger than `maxOutputLength` bytes.
+     */
+    decompress(data: Uint8Array, maxOutputLength: number): Uint8Array;
+}
+
+/**
+ * Deflate without zlib headers, using the zlib module of Node
+ */
+export const DEFLATE: CompressionAlgorithm = {
+    name: 'deflate',
+    compress: data => deflateRawSync(data),
+    decompress: (data, maxOutputLength) => inflateRawSync(data, { maxOutputLength })
+};
+
+export interface CompressionOptions {
+    /**
+     * The supported algorithms in the order of preference. [{@link DEFLATE}] by default.
+     */
+    algorithms?: CompressionAlgorithm[];
+    /**
+     * Messages smaller than this number of bytes are sent uncompressed. 1024 by default.
+     */
+    threshold?: number;
+    /**
+     * The largest size in bytes a received message may have after decompression. Larger messages are
+     * dropped and reported as errors. 256 MB by default.
+     */
+    maxDecompressedSize?: number;
+}
+
+/**
+ * The number of messages and bytes sent or received over a {@link CompressionChannel}. The byte counts
+ * only include message contents, not the frame headers.
+ */
+export interface CompressionStats {
+    messages: number;
+    compressedMessages: number;
+    /**
+     * The size of the messages before compression
+     */
+    uncompressedBytes: number;
+    /**
+     * The size of the messages as transmitted
+     */
+    transmittedBytes: number;
+    /**
+     * Transmitted bytes per uncompressed byte, 1 if nothing has been transmitted
+     */
+    ratio: number;
+}
+
+enum CompressionFrameType {
+    Hello = 0,
+    Plain = 1,
+    Compressed = 2
+}
+
+class StatsCounter {
+    messages = 0;
+    compressedMessages = 0;
+    uncompressedBytes = 0;
+    transmittedBytes = 0;
+
+    count(uncompressedBytes: number, transmittedBytes: number, compressed: boolean): void {
+        this.messages++;
+        this.uncompressedBytes += uncompressedBytes;
+        this.transmittedBytes += transmittedBytes;
+        if (compressed) {
+            this.compressedMessages++;
+        }
+    }
+
+    snapshot(): CompressionStats {
+        const { messages, compressedMessages, uncompressedBytes, transmittedBytes } = this;
+        const ratio = uncompressedBytes ? transmittedBytes / uncompressedBytes : 1;
+        return { messages, compressedMessages, uncompressedBytes, transmittedBytes, ratio };
+    }
+}
+
+/**
+ * A channel wrapper that compresses messages above a size threshold. Both ends of the underlying channel
+ * must be wrapped. The two sides exchange the names of the algorithms they support when they are created,
+ * and compress with the first of their own algorithms that the peer supports. Until the peer's hello
+ * has arrived, and if there is no common algorithm, messages are sent uncompressed.
+ * Messages that don't get smaller are sent uncompressed as well.
+ */
+export class CompressionChannel implements Channel {
+    protected readonly algorithms: CompressionAlgorithm[];
+    protected negotiated: CompressionAlgorithm | undefined;
+    protected readonly sent = new StatsCounter();
+    protected readonly received = new StatsCounter();
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    constructor(protected readonly underlying: Channel, protected readonly options: CompressionOptions = {}) {
+        this.algorithms = options.algorithms ?? [DEFLATE];
+        underlying.onMessage(buffer => this.handleMessage(buffer));
+        underlying.onError(error => this.onErrorEmitter.fire(error));
+        underlying.onClose(() => this.onCloseEmitter.fire());
+        this.sendHello(false);
+    }
+
+    /**
+     * The name of the algorithm used to compress the messages we send, if any has been agreed on
+     */
+    get algorithm(): string | undefined {
+        return this.negotiated?.name;
+    }
+
+    get principal(): Principal | undefined {
+        return this.underlying.principal;
+    }
+
+    get stats(): { sent: CompressionStats, received: CompressionStats } {
+        return { sent: this.sent.snapshot(), received: this.received.snapshot() };
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer();
+        result.onCommit(buffer => this.send(buffer));
+        return result;
+    }
+
+    whenWritable(): Promise<void> {
+        return this.underlying.whenWritable ? this.underlying.whenWritable() : Promise.resolve();
+    }
+
+    close(): void {
+        this.underlying.close();
+    }
+
+    protected send(data: Uint8Array): void {
+        const output = this.underlying.getWriteBuffer();
+        let compressed: Uint8Array | undefined;
+        if (this.negotiated && data.byteLength >= (this.options.threshold ?? 1024)) {
+            compressed = this.negotiated.compress(data);
+            if (compressed.byteLength >= data.byteLength) {
+                compressed = undefined;
+            }
+        }
+        if (compressed) {
+            output.writeByte(CompressionFrameType.Compressed).writeString(this.negotiated!.name).writeBytes(compressed);
+        } else {
+            output.writeByte(CompressionFrameType.Plain).writeBytes(data);
+        }
+        this.sent.count(data.byteLength, compressed ? compressed.byteLength : data.byteLength, !!compressed);
+        output.commit();
+    }
+
+    protected sendHello(reply: boolean): void {
+        const output = this.underlying.getWriteBuffer();
+        output.writeByte(CompressionFrameType.Hello).writeByte(reply ? 1 : 0).writeLength(this.algorithms.length);
+        this.algorithms.forEach(algorithm => output.writeString(algorithm.name));
+        output.commit();
+    }
+
+    protected handleMessage(buffer: ReadBuffer): void {
+        switch (buffer.readByte()) {
+            case CompressionFrameType.Hello: {
+                const reply = buffer.readByte() === 1;
+                const names: string[] = [];
+                for (let count = buffer.readLength(); count > 0; count--) {
+                    names.push(buffer.readString());
+                }
+                this.negotiated = this.algorithms.find(algorithm => names.indexOf(algorithm.name) >= 0);
+                if (!reply) {
+                    this.sendHello(true);
+                }
+                break;
+            }
+            case CompressionFrameType.Plain: {
+                const data = buffer.readBytes();
+                this.received.count(data.byteLength, data.byteLength, false);
+                this.onMessageEmitter.fire(new ArrayBufferReadBuffer(data));
+                break;
+            }
+            case CompressionFrameType.Compressed: {
+                const name = buffer.readString();
+                const algorithm = this.algorithms.find(candidate => candidate.name === name);
+                const compressed = buffer.readBytes();
+                if (!algorithm) {
+                    this.onErrorEmitter.fire(new Error(`Received a message compressed with the unsupported algorithm '${name}'`));
+                    return;
+                }
+                let data: Uint8Array;
+                try {
+                    // copy, since the result may be a view on a larger buffer
+                    data = new Uint8Array(algorithm.decompress(compressed, this.options.maxDecompressedSize ?? 256 * 1024 * 1024));
+                } catch (error) {
+                    this.onErrorEmitter.fire(error);
+                    return;
+                }
+                this.received.count(data.byteLength, compressed.byteLength, true);
+                this.onMessageEmitter.fire(new ArrayBufferReadBuffer(data));
+                break;
+            }
+        }
+    }
+}
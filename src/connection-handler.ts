@@ -13,25 +13,40 @@
  *
  * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
  ********************************************************************************/
+import { Principal } from './authentication';
 import { Channel } from './channel';
+import { RpcContract } from './rpc-contract';
 import { RpcHandler, RpcProxyHandler } from './rpc-proxy';
 
-interface ConnectionHandler {
-    onConnection(connection: Channel): void;
+/**
+ * The values of the parameters in a service path pattern, like `name` in `/services/:name`
+ */
+export interface PathParams {
+    [name: string]: string;
+}
+
+/**
+ * Serves the channels opened for a path. The path may be a pattern, see {@link ServiceRouter}.
+ */
+export interface ConnectionHandler {
+    readonly path: string;
+    onConnection(connection: Channel, params?: PathParams): void;
 }
 
 export class JsonRpcConnectionHandler<T extends object> implements ConnectionHandler {
     constructor(
         readonly path: string,
-        readonly targetFactory: (proxy: T) => any,
+        readonly targetFactory: (proxy: T, params: PathParams, principal?: Principal) => any,
+        readonly targetContract?: RpcContract<any>,
+        readonly proxyContract?: RpcContract<T>
     ) { }
 
-    onConnection(connection: Channel): void {
-        const proxyHandler = new RpcProxyHandler();
+    onConnection(connection: Channel, params: PathParams = {}): void {
+        const proxyHandler = new RpcProxyHandler<T>(this.proxyContract);
         const proxy = new Proxy(Object.create(null), proxyHandler);
-        const target = this.targetFactory(proxy);
+        const target = this.targetFactory(proxy, params, connection.principal);
 
-        new RpcHandler(target).onChannelOpen(connection);
+        new RpcHandler(target, this.targetContract).onChannelOpen(connection);
         proxyHandler.onChannelOpen(connection);
     }
 }
\ No newline at end of file
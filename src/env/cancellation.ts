@@ -0,0 +1,136 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Disposable, Emitter, Event } from './event';
+
+export interface CancellationToken {
+    readonly isCancellationRequested: boolean;
+    /*
+     * An event emitted when cancellation is requested
+     * @event
+     */
+    readonly onCancellationRequested: Event<void>;
+}
+
+const shortcutEvent: Event<void> = Object.freeze(function (callback: any): Disposable {
+    const handle = setTimeout(callback, 0);
+    return { dispose(): void { clearTimeout(handle); } };
+});
+
+export namespace CancellationToken {
+
+    export const None: CancellationToken = Object.freeze({
+        isCancellationRequested: false,
+        onCancellationRequested: (() => ({ dispose: () => { } })) as Event<void>
+    });
+
+    export const Cancelled: CancellationToken = Object.freeze({
+        isCancellationRequested: true,
+        onCancellationRequested: shortcutEvent
+    });
+
+    export function is(value: any): value is CancellationToken {
+        return !!value && typeof value === 'object'
+            && typeof value.isCancellationRequested === 'boolean'
+            && typeof value.onCancellationRequested === 'function';
+    }
+}
+
+class MutableToken implements CancellationToken {
+
+    private _isCancelled: boolean = false;
+    private _emitter: Emitter<void> | undefined;
+
+    public cancel(): void {
+        if (!this._isCancelled) {
+            this._isCancelled = true;
+            if (this._emitter) {
+                this._emitter.fire(undefined);
+                this._emitter = undefined;
+            }
+        }
+    }
+
+    get isCancellationRequested(): boolean {
+        return this._isCancelled;
+    }
+
+    get onCancellationRequested(): Event<void> {
+        if (this._isCancelled) {
+            return shortcutEvent;
+        }
+        if (!this._emitter) {
+            this._emitter = new Emitter<void>();
+        }
+        return this._emitter.event;
+    }
+}
+
+export class CancellationTokenSource {
+
+    private _token: CancellationToken | undefined;
+
+    get token(): CancellationToken {
+        if (!this._token) {
+            // be lazy and create the token only when
+            // actually needed
+            this._token = new MutableToken();
+        }
+        return this._token;
+    }
+
+    cancel(): void {
+        if (!this._token) {
+            // save an object by returning the default
+            // cancelled token when cancellation happens
+            // before someone asks for the token
+            this._token = CancellationToken.Cancelled;
+        } else if (this._token !== CancellationToken.Cancelled) {
+            (<MutableToken>this._token).cancel();
+        }
+    }
+
+    dispose(): void {
+        this.cancel();
+    }
+}
+
+/**
+ * The error used to reject operations that have been cancelled through a {@link CancellationToken}
+ */
+export class CancellationError extends Error {
+    constructor(message: string = 'Canceled') {
+        super(message);
+        this.name = CancellationError.NAME;
+    }
+}
+
+export namespace CancellationError {
+    export const NAME = 'Canceled';
+}
+
+export function cancelled(): Error {
+    return new CancellationError();
+}
+
+export function isCancelled(err: Error | undefined): boolean {
+    return !!err && err.name === CancellationError.NAME;
+}
+
+export function checkCancelled(token?: CancellationToken): void {
+    if (!!token && token.isCancellationRequested) {
+        throw cancelled();
+    }
+}
@@ -26,10 +26,12 @@ export class Emitter<T> {
 
     readonly event: Event<T> = (listener: (e: T) => any): Disposable => {
         this.listeners.push(listener);
-        const position = this.listeners.length;
         return {
             dispose: () => {
-                this.listeners.splice(position, 1);
+                const index = this.listeners.indexOf(listener);
+                if (index >= 0) {
+                    this.listeners.splice(index, 1);
+                }
             }
         }
     };
@@ -0,0 +1,128 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { CancellationError } from './env/cancellation';
+
+/**
+ * The parts of an error that are transferred over a channel
+ */
+export interface ErrorData {
+    name: string;
+    message: string;
+    stack?: string;
+    code?: any;
+    cause?: any;
+    /**
+     * The member errors of an `AggregateError`
+     */
+    errors?: any[];
+    /**
+     * Any other enumerable properties of the error
+     */
+    properties?: { [key: string]: any };
+}
+
+/**
+ * The error used to represent a remote error whose type is not registered with the {@link ErrorRegistry}.
+ * It keeps the name, message and stack of the remote error.
+ */
+export class RemoteError extends Error {
+    constructor(name: string, message: string, stack?: string) {
+        super(message);
+        this.name = name;
+        if (stack) {
+            this.stack = stack;
+        }
+    }
+}
+
+export type ErrorConstructorLike = new (...args: any[]) => Error;
+
+function defineHidden(target: any, property: string, value: any): void {
+    Object.defineProperty(target, property, { value, writable: true, configurable: true, enumerable: false });
+}
+
+/**
+ * Maps error names to the error classes used to reconstruct errors received over a channel.
+ * Errors are created from the class prototype without calling the constructor.
+ */
+export class ErrorRegistry {
+    protected readonly constructors: Map<string, ErrorConstructorLike> = new Map();
+
+    constructor() {
+        [Error, TypeError, RangeError, ReferenceError, SyntaxError, EvalError, URIError]
+            .forEach(constructor => this.register(constructor));
+        this.register(CancellationError, CancellationError.NAME);
+        const aggregateError = (globalThis as any).AggregateError;
+        if (aggregateError) {
+            this.register(aggregateError);
+        }
+    }
+
+    /**
+     * Registers an error class.
+     * @param constructor the error class
+     * @param name the `name` of the errors of this class. Defaults to the name of the class.
+     */
+    register(constructor: ErrorConstructorLike, name: string = constructor.name): void {
+        this.constructors.set(name, constructor);
+    }
+
+    create(data: ErrorData): Error {
+        return this.populate(this.instantiate(data), data);
+    }
+
+    /**
+     * Creates an error of the class registered for the name of the given data, with its message and stack only
+     */
+    instantiate(data: ErrorData): Error {
+        const constructor = this.constructors.get(data.name);
+        let error: any;
+        if (constructor) {
+            error = Object.create(constructor.prototype);
+            if (error.name !== data.name) {
+                defineHidden(error, 'name', data.name);
+            }
+            defineHidden(error, 'message', data.message);
+            defineHidden(error, 'stack', data.stack);
+        } else {
+            error = new RemoteError(data.name, data.message, data.stack);
+        }
+        return error;
+    }
+
+    /**
+     * Sets the code, cause, member errors and other properties of the given data on an error
+     */
+    populate(error: any, data: ErrorData): Error {
+        if (data.code !== undefined) {
+            error.code = data.code;
+        }
+        if (data.cause !== undefined) {
+            defineHidden(error, 'cause', data.cause);
+        }
+        if (data.errors !== undefined) {
+            defineHidden(error, 'errors', data.errors);
+        }
+        return Object.assign(error, data.properties);
+    }
+}
+
+export namespace ErrorRegistry {
+    /**
+     * The registry used by message decoders unless they are given a different one
+     */
+    export const DEFAULT = new ErrorRegistry();
+}
@@ -0,0 +1,169 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Deferred } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+/**
+ * The version of the rpc message format. Bump it when making incompatible changes.
+ */
+export const PROTOCOL_VERSION = 1;
+/**
+ * The oldest version of the rpc message format we can still talk to
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * What one side of a connection supports, sent to the other side when the connection is set up
+ */
+export interface ProtocolInfo {
+    version: number;
+    minVersion: number;
+    /**
+     * The value tags the sender may write
+     */
+    encoderTags: number[];
+    /**
+     * The value tags the sender can read
+     */
+    decoderTags: number[];
+}
+
+export interface HandshakeResult {
+    /**
+     * The highest protocol version supported by both sides
+     */
+    version: number;
+    peer: ProtocolInfo;
+}
+
+/**
+ * The error used when the two sides of a connection can't talk to each other
+ */
+export class IncompatiblePeerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'IncompatiblePeerError';
+    }
+}
+
+export function writeProtocolInfo(buf: WriteBuffer, info: ProtocolInfo): void {
+    buf.writeInt(info.version);
+    buf.writeInt(info.minVersion);
+    for (const tags of [info.encoderTags, info.decoderTags]) {
+        buf.writeLength(tags.length);
+        tags.forEach(tag => buf.writeLength(tag));
+    }
+}
+
+export function readProtocolInfo(buf: ReadBuffer): ProtocolInfo {
+    const version = buf.readInt();
+    const minVersion = buf.readInt();
+    const [encoderTags, decoderTags] = [0, 1].map(() => {
+        const tags: number[] = [];
+        for (let count = buf.readLength(); count > 0; count--) {
+            tags.push(buf.readLength());
+        }
+        return tags;
+    });
+    return { version, minVersion, encoderTags, decoderTags };
+}
+
+/**
+ * Settles on the highest protocol version both sides support and checks that each side can read
+ * all values the other side may write.
+ * @throws IncompatiblePeerError if there is no common version or a value tag is missing on either side
+ */
+export function negotiate(local: ProtocolInfo, remote: ProtocolInfo): HandshakeResult {
+    const version = Math.min(local.version, remote.version);
+    if (version < Math.max(local.minVersion, remote.minVersion)) {
+        throw new IncompatiblePeerError(`No common protocol version: we support versions ${local.minVersion}-${local.version}, `
+            + `the peer supports versions ${remote.minVersion}-${remote.version}`);
+    }
+    const unreadable = local.encoderTags.filter(tag => remote.decoderTags.indexOf(tag) < 0);
+    if (unreadable.length) {
+        throw new IncompatiblePeerError(`The peer has no decoders for the value tags ${unreadable.join(', ')}`);
+    }
+    const unknown = remote.encoderTags.filter(tag => local.decoderTags.indexOf(tag) < 0);
+    if (unknown.length) {
+        throw new IncompatiblePeerError(`No decoders registered for the value tags ${unknown.join(', ')} used by the peer`);
+    }
+    return { version, peer: remote };
+}
+
+/**
+ * Describes the rpc protocol supported with the value tags of the given encoder and decoder
+ */
+export function rpcProtocolInfo(encoder: { readonly tags: number[] }, decoder: { readonly tags: number[] }): ProtocolInfo {
+    return { version: PROTOCOL_VERSION, minVersion: MIN_PROTOCOL_VERSION, encoderTags: encoder.tags, decoderTags: decoder.tags };
+}
+
+/**
+ * The state of the handshake on one side of a connection. It completes with the first {@link ProtocolInfo}
+ * received from the other side. How the infos are exchanged is up to the protocol.
+ * The local info is computed when it is needed, so it includes encoders and decoders registered
+ * after the handshake has been created.
+ */
+export class Handshake {
+    protected readonly deferred = new Deferred<HandshakeResult>();
+    protected completed = false;
+    protected failure: Error | undefined;
+    protected agreed: HandshakeResult | undefined;
+
+    constructor(protected readonly localInfo: () => ProtocolInfo) {
+        // don't report an unhandled rejection if nobody is interested in the handshake
+        this.deferred.promise.catch(() => undefined);
+    }
+
+    get local(): ProtocolInfo {
+        return this.localInfo();
+    }
+
+    get result(): Promise<HandshakeResult> {
+        return this.deferred.promise;
+    }
+
+    /**
+     * The agreed protocol version, once the handshake has succeeded
+     */
+    get version(): number | undefined {
+        return this.agreed?.version;
+    }
+
+    /**
+     * The reason the handshake failed, if it did
+     */
+    get error(): Error | undefined {
+        return this.failure;
+    }
+
+    /**
+     * Completes the handshake with the info of the peer. Later calls are ignored.
+     * @returns the error if the peer is incompatible
+     */
+    complete(remote: ProtocolInfo): Error | undefined {
+        if (!this.completed) {
+            this.completed = true;
+            try {
+                this.agreed = negotiate(this.localInfo(), remote);
+                this.deferred.resolve(this.agreed);
+            } catch (error) {
+                this.failure = error;
+                this.deferred.reject(error);
+            }
+        }
+        return this.failure;
+    }
+}
@@ -0,0 +1,69 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { ChannelMultiplexer, ChannelPipe } from './channel';
+import { HeartbeatChannel, HeartbeatTimeoutError } from './heartbeat';
+
+describe('heartbeat', () => {
+    it('measure the round trip time', async () => {
+        const pipe = new ChannelPipe();
+        const left = new HeartbeatChannel(pipe.left, { interval: 5 });
+        const right = new HeartbeatChannel(pipe.right, { interval: 5 });
+        const received: string[] = [];
+        right.onMessage(buf => received.push(buf.readString()));
+        left.getWriteBuffer().writeString('hello').commit();
+
+        const roundTripTime = await new Promise<number>(resolve => left.onDidMeasureRoundTrip(resolve));
+        expect(roundTripTime).least(0);
+        expect(left.roundTripTime).equal(roundTripTime);
+        expect(received).deep.equal(['hello']);
+        left.close();
+        right.close();
+    });
+
+    it('close the channel when the peer misses beats', async () => {
+        const pipe = new ChannelPipe();
+        // nobody answers on the right side
+        const channel = new HeartbeatChannel(pipe.left, { interval: 5, maxMissedBeats: 2 });
+        const errors: any[] = [];
+        channel.onError(error => errors.push(error));
+        let remoteClosed = false;
+        pipe.right.onClose(() => remoteClosed = true);
+
+        await new Promise<void>(resolve => channel.onClose(resolve));
+        expect(errors.length).equal(1);
+        expect(errors[0]).instanceOf(HeartbeatTimeoutError);
+        expect(remoteClosed).equal(true);
+    });
+
+    it('send heartbeats between multiplexers', async () => {
+        const pipe = new ChannelPipe();
+        const left = new ChannelMultiplexer(pipe.left, { heartbeat: { interval: 5 } });
+        new ChannelMultiplexer(pipe.right);
+        while (left.roundTripTime === undefined) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        // stops the heartbeat of the left multiplexer
+        pipe.right.close();
+    });
+
+    it('close multiplexers when the remote multiplexer misses beats', async () => {
+        const pipe = new ChannelPipe();
+        const multiplexer = new ChannelMultiplexer(pipe.left, { heartbeat: { interval: 5, maxMissedBeats: 2 } });
+        const error = await multiplexer.open('unanswered', { timeout: 0 }).then(() => undefined, (e: Error) => e);
+        expect(error?.message).contains('closed');
+    });
+});
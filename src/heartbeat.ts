@@ -0,0 +1,206 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Principal } from './authentication';
+import { Channel } from './channel';
+import { Disposable, Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+export interface HeartbeatOptions {
+    /**
+     * Time in ms between two pings. 10 seconds by default.
+     */
+    interval?: number;
+    /**
+     * The number of consecutive intervals without any frame from the peer after which the peer is
+     * considered dead. 3 by default.
+     */
+    maxMissedBeats?: number;
+}
+
+/**
+ * The error fired when the peer of a channel hasn't sent anything for too long
+ */
+export class HeartbeatTimeoutError extends Error {
+    constructor(readonly missedBeats: number) {
+        super(`The peer has missed ${missedBeats} heartbeats`);
+        this.name = 'HeartbeatTimeoutError';
+    }
+}
+
+/**
+ * Tracks the liveness of the peer of a connection. A ping is sent every interval. Every frame received
+ * from the peer counts as a sign of life, and the answers to pings are used to measure the round trip time.
+ */
+export class Heartbeat implements Disposable {
+    protected timer: ReturnType<typeof setInterval> | undefined;
+    protected missedBeats = 0;
+    protected heardFrom = false;
+    protected lastRoundTripTime: number | undefined;
+
+    protected readonly onDidMeasureRoundTripEmitter: Emitter<number> = new Emitter();
+    get onDidMeasureRoundTrip(): Event<number> {
+        return this.onDidMeasureRoundTripEmitter.event;
+    }
+
+    constructor(protected readonly options: HeartbeatOptions, protected readonly sendPing: (timestamp: number) => void,
+        protected readonly onTimeout: (error: HeartbeatTimeoutError) => void) {
+    }
+
+    /**
+     * The round trip time in ms measured with the last answered ping
+     */
+    get roundTripTime(): number | undefined {
+        return this.lastRoundTripTime;
+    }
+
+    start(): void {
+        if (this.timer === undefined) {
+            this.timer = setInterval(() => this.beat(), this.options.interval ?? 10000);
+        }
+    }
+
+    /**
+     * Records that a frame has been received from the peer
+     */
+    received(): void {
+        this.heardFrom = true;
+    }
+
+    /**
+     * Records the answer to the ping sent at the given time
+     */
+    pong(timestamp: number): void {
+        this.received();
+        this.lastRoundTripTime = Date.now() - timestamp;
+        this.onDidMeasureRoundTripEmitter.fire(this.lastRoundTripTime);
+    }
+
+    dispose(): void {
+        if (this.timer !== undefined) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    protected beat(): void {
+        if (this.heardFrom) {
+            this.heardFrom = false;
+            this.missedBeats = 0;
+        } else if (++this.missedBeats >= (this.options.maxMissedBeats ?? 3)) {
+            this.dispose();
+            this.onTimeout(new HeartbeatTimeoutError(this.missedBeats));
+            return;
+        }
+        this.sendPing(Date.now());
+    }
+}
+
+enum HeartbeatFrameType {
+    Data = 0,
+    Ping = 1,
+    Pong = 2
+}
+
+/**
+ * A channel wrapper that adds heartbeats to any channel. Both ends of the underlying channel must be wrapped.
+ * If the peer misses too many beats, a {@link HeartbeatTimeoutError} is fired as error, the underlying channel
+ * is closed and {@link onClose} is fired.
+ */
+export class HeartbeatChannel implements Channel {
+    protected readonly heartbeat: Heartbeat;
+    protected closed = false;
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    constructor(protected readonly underlying: Channel, options: HeartbeatOptions = {}) {
+        this.heartbeat = new Heartbeat(options,
+            timestamp => this.underlying.getWriteBuffer().writeByte(HeartbeatFrameType.Ping).writeNumber(timestamp).commit(),
+            error => {
+                this.onErrorEmitter.fire(error);
+                this.close();
+                this.onCloseEmitter.fire();
+            });
+        underlying.onMessage(buffer => this.handleMessage(buffer));
+        underlying.onError(error => this.onErrorEmitter.fire(error));
+        underlying.onClose(() => {
+            if (!this.closed) {
+                this.closed = true;
+                this.heartbeat.dispose();
+                this.onCloseEmitter.fire();
+            }
+        });
+        this.heartbeat.start();
+    }
+
+    get roundTripTime(): number | undefined {
+        return this.heartbeat.roundTripTime;
+    }
+
+    get principal(): Principal | undefined {
+        return this.underlying.principal;
+    }
+
+    get onDidMeasureRoundTrip(): Event<number> {
+        return this.heartbeat.onDidMeasureRoundTrip;
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        return this.underlying.getWriteBuffer().writeByte(HeartbeatFrameType.Data);
+    }
+
+    whenWritable(): Promise<void> {
+        return this.underlying.whenWritable ? this.underlying.whenWritable() : Promise.resolve();
+    }
+
+    close(): void {
+        if (!this.closed) {
+            this.closed = true;
+            this.heartbeat.dispose();
+            this.underlying.close();
+        }
+    }
+
+    protected handleMessage(buffer: ReadBuffer): void {
+        this.heartbeat.received();
+        switch (buffer.readByte()) {
+            case HeartbeatFrameType.Data: {
+                this.onMessageEmitter.fire(buffer);
+                break;
+            }
+            case HeartbeatFrameType.Ping: {
+                this.underlying.getWriteBuffer().writeByte(HeartbeatFrameType.Pong).writeNumber(buffer.readNumber()).commit();
+                break;
+            }
+            case HeartbeatFrameType.Pong: {
+                this.heartbeat.pong(buffer.readNumber());
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,110 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { Channel } from './channel';
+import { ForwardingWriteBuffer, WriteBuffer } from './message-buffer';
+import { MessageEncoder } from './message-encoder';
+
+export interface BatchingOptions {
+    /**
+     * The size in bytes after which a batch is sent without waiting for the end of the tick. The size
+     * of strings is estimated from their length. 65536 by default.
+     */
+    maxBatchSize?: number;
+}
+
+/**
+ * A write buffer that keeps track of the (estimated) number of bytes written to it
+ */
+class CountingWriteBuffer extends ForwardingWriteBuffer {
+    size = 0;
+
+    writeLength(length: number): WriteBuffer {
+        this.size += 4;
+        return super.writeLength(length);
+    }
+
+    writeByte(byte: number): WriteBuffer {
+        this.size += 1;
+        return super.writeByte(byte);
+    }
+
+    writeNumber(value: number): WriteBuffer {
+        this.size += 8;
+        return super.writeNumber(value);
+    }
+
+    writeInt(value: number): WriteBuffer {
+        this.size += 4;
+        return super.writeInt(value);
+    }
+
+    writeString(value: string): WriteBuffer {
+        this.size += 4 + value.length;
+        return super.writeString(value);
+    }
+
+    writeBytes(value: Uint8Array): WriteBuffer {
+        this.size += 4 + value.byteLength;
+        return super.writeBytes(value);
+    }
+}
+
+/**
+ * Hands out the write buffers rpc messages are written to. Without batching options, every message is
+ * committed to the channel on its own. In batching mode, all messages written in the same tick are
+ * collected into a single batch message, which is committed to the channel at the end of the tick or
+ * when it exceeds the maximum batch size.
+ * Each message is written to a buffer of its own and only added to the batch when it is committed,
+ * so a message that fails to encode leaves the batch intact.
+ */
+export class MessageBatcher {
+    protected batch: CountingWriteBuffer | undefined;
+
+    constructor(protected readonly channel: Channel, protected readonly encoder: MessageEncoder, protected readonly options?: BatchingOptions) {
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        if (!this.options) {
+            return this.channel.getWriteBuffer();
+        }
+        const entry = new ArrrayBufferWriteBuffer(new Uint8Array(1024));
+        entry.onCommit(message => this.add(message));
+        return entry;
+    }
+
+    protected add(message: Uint8Array): void {
+        if (!this.batch) {
+            const created = new CountingWriteBuffer(this.channel.getWriteBuffer());
+            this.encoder.batchStart(created);
+            this.batch = created;
+            Promise.resolve().then(() => this.flush(created));
+        }
+        const batch = this.batch;
+        this.encoder.batchEntry(batch, message);
+        if (batch.size >= (this.options?.maxBatchSize ?? 65536)) {
+            this.flush(batch);
+        }
+    }
+
+    protected flush(batch: CountingWriteBuffer): void {
+        if (this.batch === batch) {
+            this.batch = undefined;
+            this.encoder.batchEnd(batch);
+            batch.commit();
+        }
+    }
+}
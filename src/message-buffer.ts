@@ -82,4 +82,13 @@ export interface ReadBuffer {
     readInt(): number;
     readString(): string;
     readBytes(): Uint8Array;
+    /**
+     * Reads all bytes that have not been read yet
+     */
+    readRemaining(): Uint8Array;
+    /**
+     * Returns a buffer that reads the unread bytes of this buffer independently of it. Several listeners
+     * of a channel can read the same message this way.
+     */
+    sliceAtReadPosition(): ReadBuffer;
 }
\ No newline at end of file
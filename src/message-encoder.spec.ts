@@ -15,7 +15,8 @@
  ********************************************************************************/
 import { expect } from 'chai';
 import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
-import { MessageDecoder, MessageEncoder } from './message-encoder';
+import { ErrorRegistry, RemoteError } from './error-registry';
+import { MessageDecoder, MessageEncoder, MessageParseError, MessageType } from './message-encoder';
 
 describe('message buffer test', () => {
     it('encode object', () => {
@@ -23,7 +24,8 @@ describe('message buffer test', () => {
         const writer = new ArrrayBufferWriteBuffer(buffer);
 
         const encoder = new MessageEncoder();
-        const jsonMangled = JSON.parse(JSON.stringify(encoder));
+        // sets are kept, everything else looks like it went through JSON
+        const jsonMangled = { ...JSON.parse(JSON.stringify(encoder)), registeredTags: new Set(encoder.tags) };
 
         encoder.writeTypedValue(writer, encoder);
 
@@ -36,4 +38,213 @@ describe('message buffer test', () => {
 
         expect(decoded).deep.equal(jsonMangled);
     })
-});
\ No newline at end of file
+
+    it('encode errors', () => {
+        class FileNotFoundError extends Error {
+            constructor(readonly uri: string, cause?: Error) {
+                super(`${uri} not found`);
+                this.name = 'FileNotFoundError';
+                Object.defineProperty(this, 'cause', { value: cause });
+            }
+        }
+        const errorRegistry = new ErrorRegistry();
+        errorRegistry.register(FileNotFoundError);
+        const cause = Object.assign(new TypeError('bad path'), { code: 'EBADPATH' });
+        const error = new FileNotFoundError('file:///a', cause);
+
+        const decoded = roundTrip(error, new MessageDecoder(errorRegistry));
+
+        expect(decoded).instanceOf(FileNotFoundError);
+        expect(decoded.name).equal('FileNotFoundError');
+        expect(decoded.message).equal('file:///a not found');
+        expect(decoded.stack).equal(error.stack);
+        expect(decoded.uri).equal('file:///a');
+        expect(decoded.cause).instanceOf(TypeError);
+        expect(decoded.cause.message).equal('bad path');
+        expect(decoded.cause.code).equal('EBADPATH');
+    });
+
+    it('encode aggregate errors', () => {
+        const error = new (globalThis as any).AggregateError([new Error('first'), new RangeError('second')], 'both failed');
+
+        const decoded = roundTrip(error);
+
+        expect(decoded.name).equal('AggregateError');
+        expect(decoded.errors.map((e: Error) => e.message)).deep.equal(['first', 'second']);
+        expect(decoded.errors[1]).instanceOf(RangeError);
+    });
+
+    it('decode unknown errors as remote errors', () => {
+        const error = new Error('unknown');
+        error.name = 'UnknownError';
+
+        const decoded = roundTrip(error);
+
+        expect(decoded).instanceOf(RemoteError);
+        expect(decoded.name).equal('UnknownError');
+        expect(decoded.stack).equal(error.stack);
+    });
+
+    it('encode null and edge numbers', () => {
+        expect(roundTrip(null)).equal(null);
+        expect(roundTrip({ value: null })).deep.equal({ value: null });
+        expect(roundTrip(NaN)).NaN;
+        expect(Object.is(roundTrip(-0), -0)).equal(true);
+        expect(roundTrip([Infinity, -Infinity, Number.MAX_VALUE])).deep.equal([Infinity, -Infinity, Number.MAX_VALUE]);
+    });
+
+    it('encode maps and sets', () => {
+        const map = new Map<any, any>([['a', 1], [2, { nested: new Set(['x']) }], [null, undefined]]);
+        const decoded = roundTrip(map);
+        expect(decoded).instanceOf(Map);
+        expect(decoded).deep.equal(map);
+        expect(roundTrip(new Map())).deep.equal(new Map());
+        expect(roundTrip(new Set())).deep.equal(new Set());
+        expect(roundTrip(new Set([1, 'one', NaN]))).deep.equal(new Set([1, 'one', NaN]));
+    });
+
+    it('encode dates, big integers and regular expressions', () => {
+        const date = new Date(Date.UTC(2021, 11, 24, 12, 30));
+        expect(roundTrip(date)).deep.equal(date);
+        expect(roundTrip(new Date(NaN)).getTime()).NaN;
+        const BigInt = (globalThis as any).BigInt;
+        const big = BigInt('123456789012345678901234567890');
+        expect(roundTrip(big) === big).equal(true);
+        expect(roundTrip(BigInt(-1)) === BigInt(-1)).equal(true);
+        const regExp = roundTrip(/a+[b-c]\//giu);
+        expect(regExp).instanceOf(RegExp);
+        expect(regExp.source).equal('a+[b-c]\\/');
+        expect(regExp.flags).equal('giu');
+    });
+
+    it('encode binary data', () => {
+        const bytes = roundTrip(new Uint8Array([1, 2, 255]));
+        expect(bytes).instanceOf(Uint8Array);
+        expect(Array.from(bytes)).deep.equal([1, 2, 255]);
+        expect(roundTrip(new Uint8Array(0)).byteLength).equal(0);
+
+        const floats = roundTrip(new Float64Array([1.5, NaN, -0]));
+        expect(floats).instanceOf(Float64Array);
+        expect(floats[0]).equal(1.5);
+        expect(floats[1]).NaN;
+        expect(Object.is(floats[2], -0)).equal(true);
+
+        // a view on part of a larger buffer
+        const view = new Int16Array(new Int16Array([1, -2, 3, -4]).buffer, 2, 2);
+        expect(Array.from(roundTrip(view))).deep.equal([-2, 3]);
+
+        const buffer = roundTrip(new Uint16Array([258]).buffer);
+        expect(buffer).instanceOf(ArrayBuffer);
+        expect(new Uint16Array(buffer)[0]).equal(258);
+
+        const dataView = roundTrip(new DataView(new Uint8Array([0, 42]).buffer));
+        expect(dataView).instanceOf(DataView);
+        expect(dataView.getUint8(1)).equal(42);
+
+        for (const type of [Int8Array, Uint8ClampedArray, Uint16Array, Int32Array, Uint32Array, Float32Array]) {
+            const decoded = roundTrip(new type([1, 2, 3]));
+            expect(decoded).instanceOf(type);
+            expect(Array.from(decoded)).deep.equal([1, 2, 3]);
+        }
+        const BigInt64Array = (globalThis as any).BigInt64Array;
+        expect(roundTrip(new BigInt64Array([(globalThis as any).BigInt(-5)]))[0] === (globalThis as any).BigInt(-5)).equal(true);
+    });
+
+    it('copy shared objects without reference tracking', () => {
+        const shared = { name: 'shared' };
+        const decoded = roundTrip([shared, shared]);
+        expect(decoded[0]).deep.equal(shared);
+        expect(decoded[0]).not.equal(decoded[1]);
+    });
+
+    it('keep shared objects and cycles with reference tracking', () => {
+        const encoder = new MessageEncoder({ trackReferences: true });
+        const shared = { name: 'shared', when: new Date(0) };
+        const decoded = roundTrip({ first: shared, second: shared, dates: [shared.when, shared.when] }, undefined, encoder);
+        expect(decoded.first).deep.equal(shared);
+        expect(decoded.first).equal(decoded.second);
+        expect(decoded.dates[0]).equal(decoded.first.when);
+        expect(decoded.dates[1]).equal(decoded.first.when);
+
+        const node: any = { name: 'node', children: [] };
+        node.children.push({ name: 'child', parent: node });
+        node.self = node;
+        const tree = roundTrip(node, undefined, encoder);
+        expect(tree.self).equal(tree);
+        expect(tree.children[0].parent).equal(tree);
+        expect(tree.children[0].name).equal('child');
+    });
+
+    it('keep cycles through arrays, maps and sets with reference tracking', () => {
+        const encoder = new MessageEncoder({ trackReferences: true });
+        const array: any[] = [1];
+        array.push(array);
+        const decodedArray = roundTrip(array, undefined, encoder);
+        expect(decodedArray[0]).equal(1);
+        expect(decodedArray[1]).equal(decodedArray);
+
+        const map = new Map<any, any>();
+        const set = new Set<any>([map]);
+        map.set(map, set);
+        const decodedMap = roundTrip(map, undefined, encoder);
+        expect(decodedMap.size).equal(1);
+        const [key, value] = [...decodedMap][0];
+        expect(key).equal(decodedMap);
+        expect(value).instanceOf(Set);
+        expect([...value][0]).equal(decodedMap);
+    });
+
+    it('keep cycles through errors with reference tracking', () => {
+        const encoder = new MessageEncoder({ trackReferences: true });
+        const error: any = new TypeError('outer');
+        const cause: any = new RangeError('inner');
+        error.cause = cause;
+        cause.cause = error;
+        error.context = { error };
+        const decoded = roundTrip(error, undefined, encoder);
+        expect(decoded).instanceOf(TypeError);
+        expect(decoded.cause).instanceOf(RangeError);
+        expect(decoded.cause.message).equal('inner');
+        expect(decoded.cause.cause).equal(decoded);
+        expect(decoded.context.error).equal(decoded);
+    });
+
+    it('report the whole frame of messages that fail to parse', () => {
+        const encoder = new MessageEncoder();
+        encoder.registerEncoder(200, {
+            is: value => value instanceof Date,
+            write: (buf, value) => buf.writeNumber(value.getTime())
+        });
+        const writer = new ArrrayBufferWriteBuffer();
+        encoder.request(writer, 1, 'save', [new Date(0)]);
+        const frame = writer.getCurrentContents();
+
+        let error: any;
+        try {
+            new MessageDecoder().parse(new ArrayBufferReadBuffer(frame));
+        } catch (e) {
+            error = e;
+        }
+        expect(error).instanceOf(MessageParseError);
+        expect(error.messageType).equal(MessageType.Request);
+        expect(error.frame).deep.equal(frame);
+        expect(error.cause.message).contains('200');
+    });
+
+    it('track references per message', () => {
+        const encoder = new MessageEncoder({ trackReferences: true });
+        const decoder = new MessageDecoder();
+        const shared = { name: 'shared' };
+        expect(roundTrip(shared, decoder, encoder)).deep.equal(shared);
+        // the second message must not refer back into the first one
+        expect(roundTrip([shared, shared], decoder, encoder)).deep.equal([shared, shared]);
+        expect(encoder.tags).include(17);
+        expect(new MessageEncoder().tags).not.include(17);
+    });
+});
+
+function roundTrip(value: any, decoder: MessageDecoder = new MessageDecoder(), encoder: MessageEncoder = new MessageEncoder()): any {
+    const writer = new ArrrayBufferWriteBuffer();
+    encoder.writeTypedValue(writer, value);
+    return decoder.readTypedValue(new ArrayBufferReadBuffer(writer.getCurrentContents()));
+}
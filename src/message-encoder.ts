@@ -13,29 +13,39 @@
  *
  * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
  ********************************************************************************/
+import { ArrayBufferReadBuffer } from './array-buffer-message-buffer';
+import { ErrorData, ErrorRegistry } from './error-registry';
+import { ProtocolInfo, readProtocolInfo, writeProtocolInfo } from './handshake';
 import { ReadBuffer, WriteBuffer } from './message-buffer';
 
 /**
- * This code lets you encode rpc protocol messages (request/reply/notification/error/cancel)
+ * This code lets you encode rpc protocol messages (request/reply/notification/error/cancel/event subscriptions/streams/handle calls/batches)
  * into a channel write buffer and decode the same messages from a read buffer.
  * Custom encoders/decoders can be registered to specially handling certain types of values
  * to be encoded. Clients are responsible for ensuring that the set of tags for encoders
- * is distinct and the same at both ends of a channel.
+ * is distinct and the same at both ends of a channel. The hello messages exchanged by
+ * rpc clients and servers check this when the connection is set up.
  */
 
-export interface SerializedError {
-    readonly $isError: true;
-    readonly name: string;
-    readonly message: string;
-    readonly stack: string;
-}
-
 export const enum MessageType {
     Request = 1,
     Notification = 2,
     Reply = 3,
     ReplyErr = 4,
     Cancel = 5,
+    Subscribe = 6,
+    Unsubscribe = 7,
+    EventNotification = 8,
+    StreamItem = 9,
+    StreamEnd = 10,
+    StreamError = 11,
+    HandleCall = 12,
+    HandleReply = 13,
+    HandleReplyErr = 14,
+    HandleRelease = 15,
+    Batch = 16,
+    Hello = 17,
+    SubscriptionError = 18,
 }
 
 export interface CancelMessage {
@@ -66,12 +76,104 @@ export interface ReplyMessage {
 export interface ReplyErrMessage {
     type: MessageType.ReplyErr;
     id: number;
-    err: SerializedError;
+    err: Error;
+}
+
+export interface SubscribeMessage {
+    type: MessageType.Subscribe;
+    id: number;
+    event: string;
+}
+
+export interface UnsubscribeMessage {
+    type: MessageType.Unsubscribe;
+    id: number;
+}
+
+export interface EventNotificationMessage {
+    type: MessageType.EventNotification;
+    id: number;
+    value: any;
+}
+
+/**
+ * Sent instead of event notifications if the server can't subscribe to the event. Ends the subscription.
+ */
+export interface SubscriptionErrorMessage {
+    type: MessageType.SubscriptionError;
+    id: number;
+    err: Error;
+}
+
+export interface StreamItemMessage {
+    type: MessageType.StreamItem;
+    id: number;
+    value: any;
+}
+
+export interface StreamEndMessage {
+    type: MessageType.StreamEnd;
+    id: number;
+}
+
+export interface StreamErrorMessage {
+    type: MessageType.StreamError;
+    id: number;
+    err: Error;
+}
+
+export interface HandleCallMessage {
+    type: MessageType.HandleCall;
+    id: number;
+    handle: number;
+    method: string;
+    args: any[];
+}
+
+export interface HandleReplyMessage {
+    type: MessageType.HandleReply;
+    id: number;
+    res: any;
+}
+
+export interface HandleReplyErrMessage {
+    type: MessageType.HandleReplyErr;
+    id: number;
+    err: Error;
+}
+
+export interface HandleReleaseMessage {
+    type: MessageType.HandleRelease;
+    handle: number;
 }
 
-export type RPCMessage = RequestMessage | ReplyMessage | ReplyErrMessage | CancelMessage | NotificationMessage;
+export type HandleMessage = HandleCallMessage | HandleReplyMessage | HandleReplyErrMessage | HandleReleaseMessage;
 
-enum ObjectType {
+/**
+ * Several messages that have been sent as a single frame
+ */
+export interface BatchMessage {
+    type: MessageType.Batch;
+    messages: RPCMessage[];
+}
+
+/**
+ * The client sends a hello when it is created, the server answers it with its own hello. A client and
+ * a server may share a channel, so the role of the sender tells who the hello is for.
+ */
+export interface HelloMessage {
+    type: MessageType.Hello;
+    role: HelloRole;
+    info: ProtocolInfo;
+}
+
+export type HelloRole = 'client' | 'server';
+
+export type RPCMessage = RequestMessage | ReplyMessage | ReplyErrMessage | CancelMessage | NotificationMessage
+    | SubscribeMessage | UnsubscribeMessage | EventNotificationMessage | SubscriptionErrorMessage
+    | StreamItemMessage | StreamEndMessage | StreamErrorMessage | HandleMessage | BatchMessage | HelloMessage;
+
+export enum ObjectType {
     JSON = 0,
     ByteArray = 1,
     ObjectArray = 2,
@@ -79,13 +181,55 @@ enum ObjectType {
     Object = 4,
     String = 5,
     Boolean = 6,
-    Number = 7
+    Number = 7,
+    Handle = 8,
+    Error = 9,
+    Null = 10,
+    Map = 11,
+    Set = 12,
+    Date = 13,
+    BigInt = 14,
+    RegExp = 15,
+    TypedArray = 16,
+    Reference = 17
+}
+
+/**
+ * The values written with these tags are objects whose identity is kept when references are tracked
+ */
+const TRACKED_TAGS = new Set<number>([ObjectType.ByteArray, ObjectType.ObjectArray, ObjectType.Object, ObjectType.Error,
+    ObjectType.Map, ObjectType.Set, ObjectType.Date, ObjectType.RegExp, ObjectType.TypedArray]);
+
+/**
+ * The objects read so far in the message being decoded, by reference index
+ */
+interface ReferenceScope {
+    readonly objects: any[];
+    /**
+     * The index of the object being read, until its decoder has registered it
+     */
+    pending: number;
 }
+
+const UNRESOLVED = Symbol('Unresolved');
+
+/**
+ * The binary data types written by the `TypedArray` codec, identified by their index. `Uint8Array`s are
+ * written as `ByteArray`. Types missing in the runtime are undefined.
+ */
+const BINARY_TYPES: (Function | undefined)[] = ['ArrayBuffer', 'DataView', 'Int8Array', 'Uint8ClampedArray', 'Int16Array',
+    'Uint16Array', 'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array', 'BigInt64Array', 'BigUint64Array']
+    .map(name => (globalThis as any)[name]);
+
+/**
+ * Error properties written explicitly by the error encoder
+ */
+const ERROR_PROPERTIES = ['name', 'message', 'stack', 'code', 'cause', 'errors'];
 /**
  * A value encoder writes javascript values to a write buffer. Encoders will be asked
  * in turn (ordered by their tag value, descending) whether they can encode a given value
  * This means encoders with higher tag values have priority. Since the default encoders
- * have tag values from 0-4, they can be easily overridden.
+ * have tag values from 0-17, they can be easily overridden.
  */
 export interface ValueEncoder {
     /**
@@ -119,14 +263,31 @@ export interface ValueDecoder {
     read(buf: ReadBuffer, recursiveDecode: (buf: ReadBuffer) => unknown): unknown;
 }
 
+export function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(' ');
+}
+
+/**
+ * The error thrown when a message cannot be parsed. It carries the whole frame of the message, so the
+ * problem can be reproduced, and the error the parser failed with.
+ */
+export class MessageParseError extends Error {
+    constructor(readonly messageType: number | undefined, readonly frame: Uint8Array, readonly cause: any) {
+        super(`Failed to parse message of type ${messageType} (${frame.byteLength} bytes): ${cause instanceof Error ? cause.message : cause}`);
+        this.name = 'MessageParseError';
+    }
+}
+
 /**
  * A MessageDecoder parses a ReadBuffer into a RCPMessage
+ * Errors are reconstructed with the classes registered in the given {@link ErrorRegistry}.
  */
 
 export class MessageDecoder {
     protected decoders: Map<number, ValueDecoder> = new Map();
+    protected references: ReferenceScope | undefined;
 
-    constructor() {
+    constructor(protected readonly errorRegistry: ErrorRegistry = ErrorRegistry.DEFAULT) {
         this.registerDecoder(ObjectType.JSON, {
             read: buf => {
                 const json = buf.readString();
@@ -139,8 +300,14 @@ export class MessageDecoder {
             }
         });
         this.registerDecoder(ObjectType.ObjectArray, {
-            read: buf => {
-                return this.readArray(buf);
+            read: (buf, recursiveRead) => {
+                const length = buf.readLength();
+                const result = new Array(length);
+                this.registerReference(result);
+                for (let i = 0; i < length; i++) {
+                    result[i] = recursiveRead(buf);
+                }
+                return result;
             }
         });
 
@@ -152,6 +319,7 @@ export class MessageDecoder {
             read: (buf, recursiveRead) => {
                 const propertyCount = buf.readLength();
                 const result = Object.create({});
+                this.registerReference(result);
                 for (let i = 0; i < propertyCount; i++) {
                     const key = buf.readString();
                     const value = recursiveRead(buf);
@@ -177,6 +345,25 @@ export class MessageDecoder {
                 return buf.readNumber();
             }
         });
+
+        this.registerDecoder(ObjectType.Error, {
+            read: (buf, recursiveRead) => {
+                const data: ErrorData = {
+                    name: buf.readString(),
+                    message: buf.readString(),
+                    stack: buf.readString() || undefined
+                };
+                // the cause or the member errors may refer back to the error
+                const error = this.errorRegistry.instantiate(data);
+                this.registerReference(error);
+                data.code = recursiveRead(buf);
+                data.cause = recursiveRead(buf);
+                data.errors = recursiveRead(buf) as any[] | undefined;
+                data.properties = recursiveRead(buf) as { [key: string]: any };
+                return this.errorRegistry.populate(error, data);
+            }
+        });
+        this.registerExtendedDecoders();
     }
 
     registerDecoder(tag: number, decoder: ValueDecoder): void {
@@ -186,9 +373,82 @@ export class MessageDecoder {
         this.decoders.set(tag, decoder);
     }
 
+    /**
+     * The tags of all registered decoders
+     */
+    get tags(): number[] {
+        return [...this.decoders.keys()];
+    }
+
+    protected registerExtendedDecoders(): void {
+        this.registerDecoder(ObjectType.Null, {
+            read: () => null
+        });
+        this.registerDecoder(ObjectType.Map, {
+            read: (buf, recursiveRead) => {
+                const result = new Map();
+                this.registerReference(result);
+                for (let size = buf.readLength(); size > 0; size--) {
+                    const key = recursiveRead(buf);
+                    result.set(key, recursiveRead(buf));
+                }
+                return result;
+            }
+        });
+        this.registerDecoder(ObjectType.Set, {
+            read: (buf, recursiveRead) => {
+                const result = new Set();
+                this.registerReference(result);
+                for (let size = buf.readLength(); size > 0; size--) {
+                    result.add(recursiveRead(buf));
+                }
+                return result;
+            }
+        });
+        this.registerDecoder(ObjectType.Date, {
+            read: buf => new Date(buf.readNumber())
+        });
+        this.registerDecoder(ObjectType.BigInt, {
+            read: buf => (globalThis as any).BigInt(buf.readString())
+        });
+        this.registerDecoder(ObjectType.RegExp, {
+            read: buf => {
+                const source = buf.readString();
+                return new RegExp(source, buf.readString());
+            }
+        });
+        this.registerDecoder(ObjectType.Reference, {
+            read: buf => {
+                const index = buf.readLength();
+                const value = this.references ? this.references.objects[index] : UNRESOLVED;
+                if (value === UNRESOLVED) {
+                    throw new Error(`Invalid reference ${index}: the object is unknown or still being decoded`);
+                }
+                return value;
+            }
+        });
+        this.registerDecoder(ObjectType.TypedArray, {
+            read: buf => {
+                const kind = buf.readByte();
+                const type: any = BINARY_TYPES[kind];
+                if (!type) {
+                    throw new Error(`Unsupported binary data type ${kind}`);
+                }
+                // read bytes are a copy starting at offset 0, so the buffer is aligned for every element size
+                const bytes = buf.readBytes();
+                if (type === ArrayBuffer) {
+                    return bytes.buffer;
+                }
+                return new type(bytes.buffer, 0, type === DataView ? bytes.byteLength : bytes.byteLength / type.BYTES_PER_ELEMENT);
+            }
+        });
+    }
+
     parse(buf: ReadBuffer): RPCMessage {
+        const frame = buf.sliceAtReadPosition();
+        let msgType: number | undefined;
         try {
-            const msgType = buf.readByte();
+            msgType = buf.readByte();
 
             switch (msgType) {
                 case MessageType.Request:
@@ -201,12 +461,37 @@ export class MessageDecoder {
                     return this.parseReplyErr(buf);
                 case MessageType.Cancel:
                     return this.parseCancel(buf);
+                case MessageType.Subscribe:
+                    return this.parseSubscribe(buf);
+                case MessageType.Unsubscribe:
+                    return this.parseUnsubscribe(buf);
+                case MessageType.EventNotification:
+                    return this.parseEventNotification(buf);
+                case MessageType.SubscriptionError:
+                    return this.parseSubscriptionError(buf);
+                case MessageType.StreamItem:
+                    return this.parseStreamItem(buf);
+                case MessageType.StreamEnd:
+                    return this.parseStreamEnd(buf);
+                case MessageType.StreamError:
+                    return this.parseStreamError(buf);
+                case MessageType.HandleCall:
+                    return this.parseHandleCall(buf);
+                case MessageType.HandleReply:
+                    return this.parseHandleReply(buf);
+                case MessageType.HandleReplyErr:
+                    return this.parseHandleReplyErr(buf);
+                case MessageType.HandleRelease:
+                    return this.parseHandleRelease(buf);
+                case MessageType.Batch:
+                    return this.parseBatch(buf);
+                case MessageType.Hello:
+                    return this.parseHello(buf);
             }
             throw new Error(`Unknown message type: ${msgType}`);
         } catch (e) {
-            // exception does not show problematic content: log it!
-            console.log('failed to parse message: ' + buf);
-            throw e;
+            // the messages of a batch are parsed on their own, their errors carry the frame of the failing message
+            throw e instanceof MessageParseError ? e : new MessageParseError(msgType, frame.readRemaining(), e);
         }
     }
 
@@ -218,6 +503,135 @@ export class MessageDecoder {
         };
     }
 
+    protected parseSubscribe(msg: ReadBuffer): SubscribeMessage {
+        const subscriptionId = msg.readInt();
+        const event = msg.readString();
+        return {
+            type: MessageType.Subscribe,
+            id: subscriptionId,
+            event: event
+        };
+    }
+
+    protected parseUnsubscribe(msg: ReadBuffer): UnsubscribeMessage {
+        const subscriptionId = msg.readInt();
+        return {
+            type: MessageType.Unsubscribe,
+            id: subscriptionId
+        };
+    }
+
+    protected parseEventNotification(msg: ReadBuffer): EventNotificationMessage {
+        const subscriptionId = msg.readInt();
+        const value = this.readTypedValue(msg);
+        return {
+            type: MessageType.EventNotification,
+            id: subscriptionId,
+            value: value
+        };
+    }
+
+    protected parseStreamItem(msg: ReadBuffer): StreamItemMessage {
+        const callId = msg.readInt();
+        const value = this.readTypedValue(msg);
+        return {
+            type: MessageType.StreamItem,
+            id: callId,
+            value: value
+        };
+    }
+
+    protected parseStreamEnd(msg: ReadBuffer): StreamEndMessage {
+        const callId = msg.readInt();
+        return {
+            type: MessageType.StreamEnd,
+            id: callId
+        };
+    }
+
+    protected parseSubscriptionError(msg: ReadBuffer): SubscriptionErrorMessage {
+        const subscriptionId = msg.readInt();
+        const err = this.readTypedValue(msg);
+        return {
+            type: MessageType.SubscriptionError,
+            id: subscriptionId,
+            err: err
+        };
+    }
+
+    protected parseStreamError(msg: ReadBuffer): StreamErrorMessage {
+        const callId = msg.readInt();
+        const err = this.readTypedValue(msg);
+        return {
+            type: MessageType.StreamError,
+            id: callId,
+            err: err
+        };
+    }
+
+    protected parseHandleCall(msg: ReadBuffer): HandleCallMessage {
+        const callId = msg.readInt();
+        const handle = msg.readInt();
+        const method = msg.readString();
+        const args = this.readArray(msg);
+        return {
+            type: MessageType.HandleCall,
+            id: callId,
+            handle: handle,
+            method: method,
+            args: args
+        };
+    }
+
+    protected parseHandleReply(msg: ReadBuffer): HandleReplyMessage {
+        const callId = msg.readInt();
+        const value = this.readTypedValue(msg);
+        return {
+            type: MessageType.HandleReply,
+            id: callId,
+            res: value
+        };
+    }
+
+    protected parseHandleReplyErr(msg: ReadBuffer): HandleReplyErrMessage {
+        const callId = msg.readInt();
+        const err = this.readTypedValue(msg);
+        return {
+            type: MessageType.HandleReplyErr,
+            id: callId,
+            err: err
+        };
+    }
+
+    protected parseHandleRelease(msg: ReadBuffer): HandleReleaseMessage {
+        const handle = msg.readInt();
+        return {
+            type: MessageType.HandleRelease,
+            handle: handle
+        };
+    }
+
+    protected parseBatch(msg: ReadBuffer): BatchMessage {
+        const messages: RPCMessage[] = [];
+        // each message in the batch is preceded by a 1, the batch is terminated by a 0
+        while (msg.readByte() !== 0) {
+            messages.push(this.parse(new ArrayBufferReadBuffer(msg.readBytes())));
+        }
+        return {
+            type: MessageType.Batch,
+            messages: messages
+        };
+    }
+
+    protected parseHello(msg: ReadBuffer): HelloMessage {
+        const role = msg.readByte() === 1 ? 'server' : 'client';
+        return {
+            type: MessageType.Hello,
+            role,
+            info: readProtocolInfo(msg)
+        };
+    }
+
     protected parseRequest(msg: ReadBuffer): RequestMessage {
         const callId = msg.readInt();
         const method = msg.readString();
@@ -261,13 +675,7 @@ export class MessageDecoder {
     parseReplyErr(msg: ReadBuffer): ReplyErrMessage {
         const callId = msg.readInt();
 
-        let err: any = this.readTypedValue(msg);
-        if (err && err.$isError) {
-            err = new Error();
-            err.name = err.name;
-            err.message = err.message;
-            err.stack = err.stack;
-        }
+        const err = this.readTypedValue(msg);
         return {
             type: MessageType.ReplyErr,
             id: callId,
@@ -276,25 +684,73 @@ export class MessageDecoder {
     }
 
     readArray(buf: ReadBuffer): any[] {
-        const length = buf.readLength();
-        const result = new Array(length);
-        for (let i = 0; i < length; i++) {
-            result[i] = this.readTypedValue(buf);
-        }
-        return result;
+        return this.withReferences(() => {
+            const length = buf.readLength();
+            const result = new Array(length);
+            for (let i = 0; i < length; i++) {
+                result[i] = this.readTypedValue(buf);
+            }
+            return result;
+        });
     }
 
     readTypedValue(buf: ReadBuffer): any {
-        const type = buf.readByte();
-        const decoder = this.decoders.get(type);
-        if (!decoder) {
-            throw new Error(`No decoder for tag ${type}`);
-        }
-        return decoder.read(buf, innerBuffer => {
-            return this.readTypedValue(innerBuffer);
+        return this.withReferences(references => {
+            const type = buf.readByte();
+            const decoder = this.decoders.get(type);
+            if (!decoder) {
+                throw new Error(`No decoder for tag ${type}`);
+            }
+            if (!TRACKED_TAGS.has(type)) {
+                return decoder.read(buf, innerBuffer => this.readTypedValue(innerBuffer));
+            }
+            // objects are numbered in the order the encoder started writing them
+            const index = references.objects.length;
+            references.objects.push(UNRESOLVED);
+            references.pending = index;
+            const value = decoder.read(buf, innerBuffer => this.readTypedValue(innerBuffer));
+            references.objects[index] = value;
+            return value;
         });
     }
+
+    /**
+     * Makes a container object known before its contents are read, so the contents can refer back to it.
+     * Decoders of objects that may be part of a cycle call this right after creating the object.
+     */
+    protected registerReference(value: any): void {
+        if (this.references && this.references.pending >= 0) {
+            this.references.objects[this.references.pending] = value;
+            this.references.pending = -1;
+        }
+    }
+
+    /**
+     * Runs the given read in the reference scope of the current message, starting a new scope for top level reads
+     */
+    protected withReferences<T>(read: (references: ReferenceScope) => T): T {
+        if (this.references) {
+            return read(this.references);
+        }
+        const references: ReferenceScope = { objects: [], pending: -1 };
+        this.references = references;
+        try {
+            return read(references);
+        } finally {
+            this.references = undefined;
+        }
+    }
 }
+
+export interface MessageEncoderOptions {
+    /**
+     * Writes objects that occur several times in a message only once, and back-references for the
+     * other occurrences. The decoder then rebuilds shared objects and cycles instead of copying objects
+     * or overflowing the stack. Off by default.
+     */
+    trackReferences?: boolean;
+}
+
 /**
  * A MessageEncoder writes RCPMessage objects to a WriteBuffer. Note that it is 
  * up to clients to commit the message. This allows for multiple messages being 
@@ -303,8 +759,12 @@ export class MessageDecoder {
 export class MessageEncoder {
     protected readonly encoders: [number, ValueEncoder][] = [];
     protected readonly registeredTags: Set<number> = new Set();
+    /**
+     * The index of each object written so far in the current message, when references are tracked
+     */
+    protected references: Map<any, number> | undefined;
 
-    constructor() {
+    constructor(protected readonly options: MessageEncoderOptions = {}) {
         // encoders will be consulted in reverse order of registration, so the JSON fallback needs to be last
         this.registerEncoder(ObjectType.JSON, {
             is: (value) => true,
@@ -320,7 +780,8 @@ export class MessageEncoder {
                 const relevant = [];
                 for (const property of properties) {
                     const value = object[property];
-                    if (typeof value !== 'function') {
+                    // functions are only kept if an encoder like the one for remote handles knows how to write them
+                    if (typeof value !== 'function' || this.hasEncoder(value)) {
                         relevant.push([property, value]);
                     }
                 }
@@ -345,7 +806,7 @@ export class MessageEncoder {
         });
 
         this.registerEncoder(ObjectType.ByteArray, {
-            is: (value) => value instanceof ArrayBuffer,
+            is: (value) => value instanceof Uint8Array,
             write: (buf, value) => {
                 buf.writeBytes(value);
             }
@@ -371,6 +832,92 @@ export class MessageEncoder {
                 buf.writeNumber(value);
             }
         });
+
+        this.registerEncoder(ObjectType.Error, {
+            is: (value) => value instanceof Error,
+            write: (buf, error, recursiveEncode) => {
+                buf.writeString(String(error.name));
+                buf.writeString(String(error.message));
+                buf.writeString(error.stack || '');
+                recursiveEncode(buf, error.code);
+                recursiveEncode(buf, error.cause);
+                recursiveEncode(buf, Array.isArray(error.errors) ? error.errors : undefined);
+                const properties: { [key: string]: any } = {};
+                for (const property of Object.keys(error)) {
+                    if (ERROR_PROPERTIES.indexOf(property) < 0) {
+                        properties[property] = error[property];
+                    }
+                }
+                recursiveEncode(buf, properties);
+            }
+        });
+        this.registerExtendedEncoders();
+        if (options.trackReferences) {
+            // back-references are written by writeTypedValue itself, the encoder only announces the tag
+            this.registerEncoder(ObjectType.Reference, {
+                is: () => false,
+                write: () => { }
+            });
+        }
+    }
+
+    /**
+     * Registers the encoders for the values JSON can't represent. They take precedence over the
+     * `Object` encoder, which would write them as plain objects.
+     */
+    protected registerExtendedEncoders(): void {
+        this.registerEncoder(ObjectType.Null, {
+            is: value => value === null,
+            write: () => { }
+        });
+        this.registerEncoder(ObjectType.Map, {
+            is: value => value instanceof Map,
+            write: (buf, map: Map<any, any>, recursiveEncode) => {
+                buf.writeLength(map.size);
+                map.forEach((value, key) => {
+                    recursiveEncode(buf, key);
+                    recursiveEncode(buf, value);
+                });
+            }
+        });
+        this.registerEncoder(ObjectType.Set, {
+            is: value => value instanceof Set,
+            write: (buf, set: Set<any>, recursiveEncode) => {
+                buf.writeLength(set.size);
+                set.forEach(value => recursiveEncode(buf, value));
+            }
+        });
+        this.registerEncoder(ObjectType.Date, {
+            is: value => value instanceof Date,
+            write: (buf, date: Date) => {
+                buf.writeNumber(date.getTime());
+            }
+        });
+        this.registerEncoder(ObjectType.BigInt, {
+            is: value => typeof value === 'bigint',
+            write: (buf, value) => {
+                buf.writeString(value.toString());
+            }
+        });
+        this.registerEncoder(ObjectType.RegExp, {
+            is: value => value instanceof RegExp,
+            write: (buf, regExp: RegExp) => {
+                buf.writeString(regExp.source);
+                buf.writeString(regExp.flags);
+            }
+        });
+        // elements are written in the byte order of the platform
+        this.registerEncoder(ObjectType.TypedArray, {
+            is: value => (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) && !(value instanceof Uint8Array),
+            write: (buf, value) => {
+                const kind = BINARY_TYPES.findIndex(type => !!type && value instanceof type);
+                if (kind < 0) {
+                    throw new Error(`Unsupported binary data type ${value.constructor?.name}`);
+                }
+                buf.writeByte(kind);
+                buf.writeBytes(value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+            }
+        });
     }
 
     registerEncoder<T>(tag: number, encoder: ValueEncoder): void {
@@ -381,11 +928,74 @@ export class MessageEncoder {
         this.encoders.push([tag, encoder]);
     }
 
+    /**
+     * The tags of all registered encoders
+     */
+    get tags(): number[] {
+        return [...this.registeredTags];
+    }
+
+    /**
+     * Returns whether an encoder other than the JSON fallback accepts the given value
+     */
+    hasEncoder(value: any): boolean {
+        return this.encoders.some(([tag, encoder]) => tag !== ObjectType.JSON && encoder.is(value));
+    }
+
+    /**
+     * Starts a batch of messages. Each message in the batch is added with {@link batchEntry}
+     * and the batch must be terminated with {@link batchEnd}.
+     */
+    batchStart(buf: WriteBuffer): void {
+        buf.writeByte(MessageType.Batch);
+    }
+
+    /**
+     * Adds an encoded message to a batch
+     */
+    batchEntry(buf: WriteBuffer, message: Uint8Array): void {
+        buf.writeByte(1);
+        buf.writeBytes(message);
+    }
+
+    batchEnd(buf: WriteBuffer): void {
+        buf.writeByte(0);
+    }
+
+    hello(buf: WriteBuffer, role: HelloRole, info: ProtocolInfo): void {
+        buf.writeByte(MessageType.Hello);
+        buf.writeByte(role === 'server' ? 1 : 0);
+        writeProtocolInfo(buf, info);
+    }
+
     cancel(buf: WriteBuffer, requestId: number): void {
         buf.writeByte(MessageType.Cancel);
         buf.writeInt(requestId);
     }
 
+    subscribe(buf: WriteBuffer, subscriptionId: number, event: string): void {
+        buf.writeByte(MessageType.Subscribe);
+        buf.writeInt(subscriptionId);
+        buf.writeString(event);
+    }
+
+    unsubscribe(buf: WriteBuffer, subscriptionId: number): void {
+        buf.writeByte(MessageType.Unsubscribe);
+        buf.writeInt(subscriptionId);
+    }
+
+    eventNotification(buf: WriteBuffer, subscriptionId: number, value: any): void {
+        buf.writeByte(MessageType.EventNotification);
+        buf.writeInt(subscriptionId);
+        this.writeTypedValue(buf, value);
+    }
+
+    subscriptionError(buf: WriteBuffer, subscriptionId: number, err: any): void {
+        buf.writeByte(MessageType.SubscriptionError);
+        buf.writeInt(subscriptionId);
+        this.writeTypedValue(buf, err);
+    }
+
     notification(buf: WriteBuffer, requestId: number, method: string, args: any[]): void {
         buf.writeByte(MessageType.Notification);
         buf.writeInt(requestId);
@@ -412,22 +1022,97 @@ export class MessageEncoder {
         this.writeTypedValue(buf, err);
     }
 
+    streamItem(buf: WriteBuffer, requestId: number, value: any): void {
+        buf.writeByte(MessageType.StreamItem);
+        buf.writeInt(requestId);
+        this.writeTypedValue(buf, value);
+    }
+
+    streamEnd(buf: WriteBuffer, requestId: number): void {
+        buf.writeByte(MessageType.StreamEnd);
+        buf.writeInt(requestId);
+    }
+
+    streamError(buf: WriteBuffer, requestId: number, err: any): void {
+        buf.writeByte(MessageType.StreamError);
+        buf.writeInt(requestId);
+        this.writeTypedValue(buf, err);
+    }
+
+    handleCall(buf: WriteBuffer, callId: number, handle: number, method: string, args: any[]): void {
+        buf.writeByte(MessageType.HandleCall);
+        buf.writeInt(callId);
+        buf.writeInt(handle);
+        buf.writeString(method);
+        this.writeArray(buf, args);
+    }
+
+    handleReply(buf: WriteBuffer, callId: number, res: any): void {
+        buf.writeByte(MessageType.HandleReply);
+        buf.writeInt(callId);
+        this.writeTypedValue(buf, res);
+    }
+
+    handleReplyErr(buf: WriteBuffer, callId: number, err: any): void {
+        buf.writeByte(MessageType.HandleReplyErr);
+        buf.writeInt(callId);
+        this.writeTypedValue(buf, err);
+    }
+
+    handleRelease(buf: WriteBuffer, handle: number): void {
+        buf.writeByte(MessageType.HandleRelease);
+        buf.writeInt(handle);
+    }
+
     writeTypedValue(buf: WriteBuffer, value: any): void {
-        for (let i: number = this.encoders.length - 1; i >= 0; i--) {
-            if (this.encoders[i][1].is(value)) {
-                buf.writeByte(this.encoders[i][0]);
-                this.encoders[i][1].write(buf, value, (innerBuffer, innerValue) => {
-                    this.writeTypedValue(innerBuffer, innerValue);
-                });
-                return;
+        this.withReferences(references => {
+            for (let i: number = this.encoders.length - 1; i >= 0; i--) {
+                const [tag, encoder] = this.encoders[i];
+                if (encoder.is(value)) {
+                    if (references && TRACKED_TAGS.has(tag)) {
+                        const index = references.get(value);
+                        if (index !== undefined) {
+                            buf.writeByte(ObjectType.Reference);
+                            buf.writeLength(index);
+                            return;
+                        }
+                        // numbered before the contents are written, so the decoder can number objects the same way
+                        references.set(value, references.size);
+                    }
+                    buf.writeByte(tag);
+                    encoder.write(buf, value, (innerBuffer, innerValue) => {
+                        this.writeTypedValue(innerBuffer, innerValue);
+                    });
+                    return;
+                }
             }
-        }
+        });
     }
 
     writeArray(buf: WriteBuffer, value: any[]): void {
-        buf.writeLength(value.length);
-        for (let i = 0; i < value.length; i++) {
-            this.writeTypedValue(buf, value[i]);
+        this.withReferences(() => {
+            buf.writeLength(value.length);
+            for (let i = 0; i < value.length; i++) {
+                this.writeTypedValue(buf, value[i]);
+            }
+        });
+    }
+
+    /**
+     * Runs the given write in the reference scope of the current message, starting a new scope for top level
+     * writes. Without reference tracking, there is no scope.
+     */
+    protected withReferences(write: (references: Map<any, number> | undefined) => void): void {
+        if (this.references || !this.options.trackReferences) {
+            write(this.references);
+            return;
+        }
+        const references = new Map<any, number>();
+        this.references = references;
+        try {
+            write(references);
+        } finally {
+            this.references = undefined;
         }
     }
 
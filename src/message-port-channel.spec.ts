@@ -0,0 +1,50 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { MessageChannel, Worker } from 'worker_threads';
+import { MessagePortChannel } from './message-port-channel';
+import { RpcClient, RPCServer } from './rpc-protocol';
+
+describe('message port channel', () => {
+    it('send rpc messages between message ports', async () => {
+        const { port1, port2 } = new MessageChannel();
+        new RPCServer(new MessagePortChannel(port2), async (method, args) => args[0].length);
+        const client = new RpcClient(new MessagePortChannel(port1));
+
+        expect(await client.sendRequest('length', ['x'.repeat(100000)])).equal(100000);
+        port1.close();
+    });
+
+    it('fire onClose when the remote port closes', async () => {
+        const { port1, port2 } = new MessageChannel();
+        const channel = new MessagePortChannel(port1);
+        const remote = new MessagePortChannel(port2);
+        const closed = new Promise<void>(resolve => channel.onClose(resolve));
+        remote.close();
+        await closed;
+    });
+
+    it('send messages to a worker', async () => {
+        // echoes every message back to the parent
+        const worker = new Worker("require('worker_threads').parentPort.on('message', m => require('worker_threads').parentPort.postMessage(m))", { eval: true });
+        const channel = new MessagePortChannel(worker);
+        const received = new Promise<string>(resolve => channel.onMessage(buf => resolve(buf.readString())));
+        channel.getWriteBuffer().writeString('hello').commit();
+
+        expect(await received).equal('hello');
+        channel.close();
+    });
+});
@@ -0,0 +1,105 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { MessagePort, Worker } from 'worker_threads';
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { Channel } from './channel';
+import { Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+/**
+ * A channel over a `worker_threads` message port or worker. Use a `Worker` on the side that started the
+ * worker and `parentPort` inside the worker, or the two ports of a `MessageChannel`.
+ * Messages are posted as transferred array buffers, so they are moved to the other thread without copying.
+ */
+export class MessagePortChannel implements Channel {
+    protected closed = false;
+    protected readonly messageListener = (data: any) => this.handleMessage(data);
+    protected readonly closeListener = () => this.handleClose();
+    protected readonly errorListener = (error: any) => this.onErrorEmitter.fire(error);
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    constructor(protected readonly port: MessagePort | Worker) {
+        port.on('message', this.messageListener);
+        port.on('messageerror', this.errorListener);
+        if (port instanceof Worker) {
+            port.on('error', this.errorListener);
+            port.on('exit', this.closeListener);
+        } else {
+            port.on('close', this.closeListener);
+        }
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer();
+        result.onCommit(buffer => {
+            if (!this.closed) {
+                // the committed contents are a copy that owns its array buffer, so the buffer can be transferred
+                this.port.postMessage(buffer.buffer, [buffer.buffer]);
+            }
+        });
+        return result;
+    }
+
+    close(): void {
+        if (!this.closed) {
+            this.dispose();
+            if (this.port instanceof Worker) {
+                this.port.terminate();
+            } else {
+                this.port.close();
+            }
+        }
+    }
+
+    protected handleMessage(data: any): void {
+        if (data instanceof ArrayBuffer) {
+            this.onMessageEmitter.fire(new ArrayBufferReadBuffer(new Uint8Array(data)));
+        } else if (ArrayBuffer.isView(data)) {
+            // a copy, since the view may not start at the beginning of its buffer
+            this.onMessageEmitter.fire(new ArrayBufferReadBuffer(new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice()));
+        }
+    }
+
+    protected handleClose(): void {
+        if (!this.closed) {
+            this.dispose();
+            this.onCloseEmitter.fire();
+        }
+    }
+
+    protected dispose(): void {
+        this.closed = true;
+        this.port.off('message', this.messageListener);
+        this.port.off('messageerror', this.errorListener);
+        this.port.off('error', this.errorListener);
+        this.port.off('exit', this.closeListener);
+        this.port.off('close', this.closeListener);
+    }
+}
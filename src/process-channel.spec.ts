@@ -0,0 +1,55 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { spawn } from 'child_process';
+import { ProcessChannel } from './process-channel';
+
+/**
+ * Echoes every ipc message back to the parent
+ */
+const ECHO_SCRIPT = "process.on('message', m => process.send(m))";
+
+describe('process channel', () => {
+    for (const serialization of ['json', 'advanced'] as const) {
+        it(`send messages to a child process with ${serialization} serialization`, async () => {
+            const child = spawn(process.execPath, ['-e', ECHO_SCRIPT], { stdio: ['ignore', 'ignore', 'inherit', 'ipc'], serialization });
+            const channel = new ProcessChannel(child, { serialization });
+            const received = new Promise<string>(resolve => channel.onMessage(buf => resolve(buf.readString())));
+            channel.getWriteBuffer().writeString('hello').commit();
+
+            expect(await received).equal('hello');
+            const exited = new Promise(resolve => child.on('exit', resolve));
+            // disconnecting lets the child exit
+            channel.close();
+            await exited;
+        });
+    }
+
+    it('ignore other ipc messages', async () => {
+        const child = spawn(process.execPath, ['-e', ECHO_SCRIPT], { stdio: ['ignore', 'ignore', 'inherit', 'ipc'] });
+        const channel = new ProcessChannel(child);
+        const received: string[] = [];
+        channel.onMessage(buf => received.push(buf.readString()));
+        const otherReceived = new Promise(resolve => child.on('message', resolve));
+        child.send({ other: true });
+        await otherReceived;
+        expect(received).deep.equal([]);
+
+        const closed = new Promise<void>(resolve => channel.onClose(resolve));
+        child.kill();
+        await closed;
+    });
+});
@@ -0,0 +1,124 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { ChildProcess } from 'child_process';
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { Channel } from './channel';
+import { Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+export interface ProcessChannelOptions {
+    /**
+     * The serialization of the ipc channel, as passed to `fork` or `spawn`. With 'advanced' serialization,
+     * messages are sent as binary data. With 'json' serialization, they are sent as base64 strings.
+     * 'json' by default.
+     */
+    serialization?: 'json' | 'advanced';
+}
+
+/**
+ * The ipc messages of a process channel carry this marker, so other messages on the same ipc channel are ignored
+ */
+const PROCESS_CHANNEL_MARKER = 'rpc-channel';
+
+interface ProcessChannelMessage {
+    type: typeof PROCESS_CHANNEL_MARKER;
+    data: string | Uint8Array;
+}
+
+function isProcessChannelMessage(message: any): message is ProcessChannelMessage {
+    return !!message && typeof message === 'object' && message.type === PROCESS_CHANNEL_MARKER;
+}
+
+/**
+ * A channel over the ipc channel of a child process. Use the `ChildProcess` in the parent process and
+ * the global `process` in the child. Closing the channel disconnects the ipc channel.
+ * Ipc messages are always copied between processes, so there is nothing to transfer.
+ */
+export class ProcessChannel implements Channel {
+    protected closed = false;
+    protected readonly messageListener = (message: any) => this.handleMessage(message);
+    protected readonly disconnectListener = () => this.handleDisconnect();
+    protected readonly errorListener = (error: any) => this.onErrorEmitter.fire(error);
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    constructor(protected readonly process: ChildProcess | NodeJS.Process, protected readonly options: ProcessChannelOptions = {}) {
+        if (!process.send) {
+            throw new Error('The process has no ipc channel');
+        }
+        process.on('message', this.messageListener);
+        process.on('disconnect', this.disconnectListener);
+        process.on('error', this.errorListener);
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer();
+        result.onCommit(buffer => {
+            if (!this.closed && this.process.connected) {
+                const data = this.options.serialization === 'advanced' ? buffer : Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength).toString('base64');
+                const message: ProcessChannelMessage = { type: PROCESS_CHANNEL_MARKER, data };
+                this.process.send!(message);
+            }
+        });
+        return result;
+    }
+
+    close(): void {
+        if (!this.closed) {
+            this.dispose();
+            if (this.process.connected) {
+                this.process.disconnect!();
+            }
+        }
+    }
+
+    protected handleMessage(message: any): void {
+        if (!isProcessChannelMessage(message)) {
+            return;
+        }
+        const { data } = message;
+        const bytes = typeof data === 'string' ? Buffer.from(data, 'base64') : data;
+        // copy, since buffers may be views on a larger pool
+        this.onMessageEmitter.fire(new ArrayBufferReadBuffer(new Uint8Array(bytes)));
+    }
+
+    protected handleDisconnect(): void {
+        if (!this.closed) {
+            this.dispose();
+            this.onCloseEmitter.fire();
+        }
+    }
+
+    protected dispose(): void {
+        this.closed = true;
+        this.process.off('message', this.messageListener);
+        this.process.off('disconnect', this.disconnectListener);
+        this.process.off('error', this.errorListener);
+    }
+}
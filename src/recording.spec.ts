@@ -0,0 +1,80 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChannelPipe } from './channel';
+import { MessageType } from './message-encoder';
+import { formatFrame, inspectRecording, MemoryRecordingSink, readRecording, RecordingChannel, ReplayChannel, StreamRecordingSink } from './recording';
+import { RpcClient, RPCServer } from './rpc-protocol';
+
+describe('recording', () => {
+    it('record, inspect and replay a session', async () => {
+        const pipe = new ChannelPipe();
+        const sink = new MemoryRecordingSink();
+        new RPCServer(new RecordingChannel(pipe.right, sink), async (method, args) => args[0] + args[1]);
+        const client = new RpcClient(pipe.left);
+        expect(await client.sendRequest('add', [1, 2])).equal(3);
+
+        const recording = sink.getContents();
+        // the hello of the client, the answer of the server, the request and the reply
+        expect(readRecording(recording).map(frame => frame.direction)).deep.equal(['in', 'out', 'in', 'out']);
+
+        const inspected = inspectRecording(recording).filter(frame => frame.message?.type !== MessageType.Hello);
+        expect(inspected[0].message).deep.include({ type: MessageType.Request, method: 'add', args: [1, 2] });
+        expect(inspected[1].message).deep.include({ type: MessageType.Reply, res: 3 });
+        expect(formatFrame(inspected[0])).contains('Request #').and.contains('add(1, 2)');
+
+        const replay = new ReplayChannel(recording);
+        new RPCServer(replay, async (method, args) => args[0] + args[1]);
+        await replay.replay();
+        expect(replay.written).deep.equal(replay.expected);
+    });
+
+    it('record to a file', async () => {
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'recording-')), 'session.rec');
+        try {
+            const pipe = new ChannelPipe();
+            const sink = new StreamRecordingSink(fs.createWriteStream(file));
+            new RPCServer(new RecordingChannel(pipe.right, sink), async (method, args) => args[0].length);
+            const client = new RpcClient(pipe.left);
+            const large = 'x'.repeat(10000);
+            expect(await client.sendRequest('length', [large])).equal(10000);
+            await sink.end();
+
+            const inspected = inspectRecording(fs.readFileSync(file)).filter(frame => frame.message?.type !== MessageType.Hello);
+            expect(inspected.map(frame => frame.direction)).deep.equal(['in', 'out']);
+            expect(inspected[0].message).deep.include({ type: MessageType.Request, method: 'length', args: [large] });
+            expect(inspected[1].message).deep.include({ type: MessageType.Reply, res: 10000 });
+        } finally {
+            fs.rmSync(path.dirname(file), { recursive: true, force: true });
+        }
+    });
+
+    it('report undecodable frames', () => {
+        const sink = new MemoryRecordingSink();
+        const pipe = new ChannelPipe();
+        new RecordingChannel(pipe.right, sink);
+        const output = pipe.left.getWriteBuffer();
+        output.writeByte(200);
+        output.commit();
+
+        const [frame] = inspectRecording(sink.getContents());
+        expect(frame.message).equal(undefined);
+        expect(frame.error).contains('c8');
+    });
+});
@@ -0,0 +1,471 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Writable } from 'stream';
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { Principal } from './authentication';
+import { Channel, MessageTypes } from './channel';
+import { Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+import { MessageDecoder, MessageType, ObjectType, RPCMessage, toHex } from './message-encoder';
+
+/**
+ * Tools to record the traffic on a channel, inspect recordings and replay them in tests.
+ *
+ * A recording starts with the magic bytes `MRPC` and a format version byte, followed by one entry per
+ * frame: the direction (1 byte), the timestamp in ms since the epoch (float64), the length of the
+ * frame (uint32) and the frame bytes.
+ */
+
+const MAGIC = [0x4d, 0x52, 0x50, 0x43];
+const FORMAT_VERSION = 1;
+const ENTRY_HEADER_SIZE = 13;
+
+export type FrameDirection = 'in' | 'out';
+
+export interface RecordedFrame {
+    direction: FrameDirection;
+    timestamp: number;
+    data: Uint8Array;
+}
+
+/**
+ * Receives the chunks of a recording
+ */
+export interface RecordingSink {
+    write(chunk: Uint8Array): void;
+}
+
+/**
+ * A sink writing a recording to a Node stream, for instance to a file opened with `fs.createWriteStream`.
+ * Long sessions can be recorded this way without keeping the recording in memory.
+ */
+export class StreamRecordingSink implements RecordingSink {
+    constructor(protected readonly stream: Writable) {
+    }
+
+    write(chunk: Uint8Array): void {
+        this.stream.write(chunk);
+    }
+
+    /**
+     * Ends the stream. Resolves when the recording has been flushed.
+     */
+    end(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.stream.once('error', reject);
+            this.stream.end(() => resolve());
+        });
+    }
+}
+
+/**
+ * A sink collecting a recording in memory
+ */
+export class MemoryRecordingSink implements RecordingSink {
+    protected readonly chunks: Uint8Array[] = [];
+
+    write(chunk: Uint8Array): void {
+        this.chunks.push(chunk);
+    }
+
+    getContents(): Uint8Array {
+        const result = new Uint8Array(this.chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            result.set(chunk, offset);
+            offset += chunk.byteLength;
+        }
+        return result;
+    }
+}
+
+function encodeEntry(frame: RecordedFrame): Uint8Array {
+    const entry = new Uint8Array(ENTRY_HEADER_SIZE + frame.data.byteLength);
+    const view = new DataView(entry.buffer);
+    view.setUint8(0, frame.direction === 'in' ? 0 : 1);
+    view.setFloat64(1, frame.timestamp);
+    view.setUint32(9, frame.data.byteLength);
+    entry.set(frame.data, ENTRY_HEADER_SIZE);
+    return entry;
+}
+
+/**
+ * Parses a recording into its frames
+ */
+export function readRecording(recording: Uint8Array): RecordedFrame[] {
+    if (recording.byteLength < MAGIC.length + 1 || MAGIC.some((byte, index) => recording[index] !== byte)) {
+        throw new Error('Not a channel recording');
+    }
+    const version = recording[MAGIC.length];
+    if (version !== FORMAT_VERSION) {
+        throw new Error(`Unsupported recording format version: ${version}`);
+    }
+    const view = new DataView(recording.buffer, recording.byteOffset, recording.byteLength);
+    const frames: RecordedFrame[] = [];
+    let offset = MAGIC.length + 1;
+    while (offset + ENTRY_HEADER_SIZE <= recording.byteLength) {
+        const length = view.getUint32(offset + 9);
+        frames.push({
+            direction: view.getUint8(offset) === 0 ? 'in' : 'out',
+            timestamp: view.getFloat64(offset + 1),
+            // copied, since `slice` of a Node `Buffer` shares its memory
+            data: new Uint8Array(recording.subarray(offset + ENTRY_HEADER_SIZE, offset + ENTRY_HEADER_SIZE + length))
+        });
+        offset += ENTRY_HEADER_SIZE + length;
+    }
+    return frames;
+}
+
+/**
+ * The initial size of the buffers outgoing frames are copied to. The buffers grow on demand.
+ */
+const INITIAL_FRAME_SIZE = 1024;
+
+/**
+ * A write buffer that writes to an underlying buffer and keeps a copy of everything written.
+ */
+class TeeWriteBuffer implements WriteBuffer {
+    protected readonly copy = new ArrrayBufferWriteBuffer(new Uint8Array(INITIAL_FRAME_SIZE));
+
+    constructor(protected readonly underlying: WriteBuffer, protected readonly onCommit: (data: Uint8Array) => void) {
+    }
+
+    writeLength(length: number): WriteBuffer {
+        this.underlying.writeLength(length);
+        this.copy.writeLength(length);
+        return this;
+    }
+
+    writeByte(byte: number): WriteBuffer {
+        this.underlying.writeByte(byte);
+        this.copy.writeByte(byte);
+        return this;
+    }
+
+    writeNumber(value: number): WriteBuffer {
+        this.underlying.writeNumber(value);
+        this.copy.writeNumber(value);
+        return this;
+    }
+
+    writeInt(value: number): WriteBuffer {
+        this.underlying.writeInt(value);
+        this.copy.writeInt(value);
+        return this;
+    }
+
+    writeString(value: string): WriteBuffer {
+        this.underlying.writeString(value);
+        this.copy.writeString(value);
+        return this;
+    }
+
+    writeBytes(value: Uint8Array): WriteBuffer {
+        this.underlying.writeBytes(value);
+        this.copy.writeBytes(value);
+        return this;
+    }
+
+    commit(): void {
+        this.onCommit(this.copy.getCurrentContents());
+        this.underlying.commit();
+    }
+}
+
+/**
+ * A channel wrapper that records all frames sent and received over the wrapped channel.
+ */
+export class RecordingChannel implements Channel {
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    get onClose(): Event<void> {
+        return this.underlying.onClose;
+    }
+
+    get onError(): Event<any> {
+        return this.underlying.onError;
+    }
+
+    constructor(protected readonly underlying: Channel, protected readonly sink: RecordingSink) {
+        sink.write(new Uint8Array([...MAGIC, FORMAT_VERSION]));
+        underlying.onMessage(buffer => {
+            const data = buffer.readRemaining();
+            this.record('in', data);
+            this.onMessageEmitter.fire(new ArrayBufferReadBuffer(data));
+        });
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        return new TeeWriteBuffer(this.underlying.getWriteBuffer(), data => this.record('out', data));
+    }
+
+    whenWritable(): Promise<void> {
+        return this.underlying.whenWritable ? this.underlying.whenWritable() : Promise.resolve();
+    }
+
+    get principal(): Principal | undefined {
+        return this.underlying.principal;
+    }
+
+    close(): void {
+        this.underlying.close();
+    }
+
+    protected record(direction: FrameDirection, data: Uint8Array): void {
+        this.sink.write(encodeEntry({ direction, timestamp: Date.now(), data }));
+    }
+}
+
+export interface InspectedFrame extends RecordedFrame {
+    /**
+     * The multiplexer header, if the recording has been taken below a {@link ChannelMultiplexer}.
+     * The channel is given by name in open and refuse frames and by number in all frames that belong to a channel.
+     */
+    multiplexer?: { type: string; channel?: string | number };
+    /**
+     * The rpc message contained in the frame, if it could be decoded
+     */
+    message?: RPCMessage;
+    /**
+     * The reason why the frame could not be decoded
+     */
+    error?: string;
+}
+
+export interface InspectionOptions {
+    /**
+     * Whether the frames carry {@link ChannelMultiplexer} headers. False by default.
+     */
+    multiplexed?: boolean;
+    /**
+     * The decoder used to decode rpc messages, for recordings using custom value encoders
+     */
+    decoder?: MessageDecoder;
+}
+
+function createInspectionDecoder(): MessageDecoder {
+    const decoder = new MessageDecoder();
+    // handles can't be called back, so we only show their ids
+    decoder.registerDecoder(ObjectType.Handle, {
+        read: buf => {
+            const kind = buf.readByte() === 0 ? 'function' : 'object';
+            return { $handle: buf.readInt(), kind };
+        }
+    });
+    return decoder;
+}
+
+/**
+ * Decodes the multiplexer headers and rpc messages of all frames in a recording.
+ * The message of a fragmented multiplexer message is shown on the frame carrying its last part.
+ */
+export function inspectRecording(recording: Uint8Array, options: InspectionOptions = {}): InspectedFrame[] {
+    const decoder = options.decoder || createInspectionDecoder();
+    // the fragments received so far per direction and channel
+    const fragments: Map<string, Uint8Array[]> = new Map();
+    return readRecording(recording).map(frame => {
+        const result: InspectedFrame = { ...frame };
+        const buffer = new ArrayBufferReadBuffer(frame.data);
+        try {
+            if (options.multiplexed) {
+                const type = buffer.readByte();
+                if (type === MessageTypes.Hello || type === MessageTypes.Ping || type === MessageTypes.Pong) {
+                    result.multiplexer = { type: MessageTypes[type] };
+                    return result;
+                }
+                const named = type === MessageTypes.Open || type === MessageTypes.AckOpen || type === MessageTypes.Refuse;
+                const channel = named ? buffer.readString() : buffer.readLength();
+                result.multiplexer = { type: MessageTypes[type] || `Unknown(${type})`, channel };
+                const key = `${frame.direction}:${channel}`;
+                if (type === MessageTypes.Fragment) {
+                    const received = fragments.get(key) || [];
+                    received.push(buffer.readBytes());
+                    fragments.set(key, received);
+                }
+                if (type !== MessageTypes.Data) {
+                    return result;
+                }
+                const parts = fragments.get(key) || [];
+                parts.push(buffer.readBytes());
+                fragments.delete(key);
+                const message = new Uint8Array(parts.reduce((size, part) => size + part.byteLength, 0));
+                let offset = 0;
+                for (const part of parts) {
+                    message.set(part, offset);
+                    offset += part.byteLength;
+                }
+                result.message = decoder.parse(new ArrayBufferReadBuffer(message));
+            } else {
+                result.message = decoder.parse(buffer);
+            }
+        } catch (e) {
+            result.error = `${e}: ${toHex(frame.data)}`;
+        }
+        return result;
+    });
+}
+
+const MESSAGE_TYPE_NAMES: { [type: number]: string } = {
+    [MessageType.Request]: 'Request',
+    [MessageType.Notification]: 'Notification',
+    [MessageType.Reply]: 'Reply',
+    [MessageType.ReplyErr]: 'ReplyErr',
+    [MessageType.Cancel]: 'Cancel',
+    [MessageType.Subscribe]: 'Subscribe',
+    [MessageType.Unsubscribe]: 'Unsubscribe',
+    [MessageType.EventNotification]: 'EventNotification',
+    [MessageType.SubscriptionError]: 'SubscriptionError',
+    [MessageType.StreamItem]: 'StreamItem',
+    [MessageType.StreamEnd]: 'StreamEnd',
+    [MessageType.StreamError]: 'StreamError',
+    [MessageType.HandleCall]: 'HandleCall',
+    [MessageType.HandleReply]: 'HandleReply',
+    [MessageType.HandleReplyErr]: 'HandleReplyErr',
+    [MessageType.HandleRelease]: 'HandleRelease',
+    [MessageType.Batch]: 'Batch',
+    [MessageType.Hello]: 'Hello'
+};
+
+function formatValue(value: any): string {
+    if (value instanceof Error) {
+        return `${value.name}: ${value.message}`;
+    }
+    if (value instanceof Uint8Array) {
+        return `<${value.byteLength} bytes>`;
+    }
+    try {
+        const json = JSON.stringify(value);
+        return json === undefined ? String(value) : json;
+    } catch {
+        return String(value);
+    }
+}
+
+function formatMessage(message: RPCMessage): string {
+    const name = MESSAGE_TYPE_NAMES[message.type];
+    switch (message.type) {
+        case MessageType.Request:
+        case MessageType.Notification:
+            return `${name} #${message.id} ${message.method}(${message.args.map(formatValue).join(', ')})`;
+        case MessageType.Reply:
+        case MessageType.HandleReply:
+            return `${name} #${message.id} ${formatValue(message.res)}`;
+        case MessageType.ReplyErr:
+        case MessageType.StreamError:
+        case MessageType.SubscriptionError:
+        case MessageType.HandleReplyErr:
+            return `${name} #${message.id} ${formatValue(message.err)}`;
+        case MessageType.Subscribe:
+            return `${name} #${message.id} ${message.event}`;
+        case MessageType.EventNotification:
+        case MessageType.StreamItem:
+            return `${name} #${message.id} ${formatValue(message.value)}`;
+        case MessageType.HandleCall:
+            return `${name} #${message.id} handle ${message.handle}.${message.method || '<call>'}(${message.args.map(formatValue).join(', ')})`;
+        case MessageType.HandleRelease:
+            return `${name} handle ${message.handle}`;
+        case MessageType.Batch:
+            return `${name} [${message.messages.map(formatMessage).join('; ')}]`;
+        case MessageType.Hello:
+            return `${name} ${message.role} ${formatValue(message.info)}`;
+        default:
+            return `${name} #${message.id}`;
+    }
+}
+
+/**
+ * Formats an inspected frame as a single human readable line
+ */
+export function formatFrame(frame: InspectedFrame): string {
+    const parts = [new Date(frame.timestamp).toISOString(), frame.direction === 'in' ? '<-' : '->'];
+    if (frame.multiplexer) {
+        parts.push(`${frame.multiplexer.type}[${frame.multiplexer.channel}]`);
+    }
+    if (frame.message) {
+        parts.push(formatMessage(frame.message));
+    }
+    if (frame.error) {
+        parts.push(`undecodable: ${frame.error}`);
+    }
+    return parts.join(' ');
+}
+
+/**
+ * A channel that plays back the incoming frames of a recording. Everything written to the channel
+ * is collected, so tests can compare it with the outgoing frames of the recording.
+ */
+export class ReplayChannel implements Channel {
+    protected readonly frames: RecordedFrame[];
+    readonly written: Uint8Array[] = [];
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    constructor(recording: Uint8Array | RecordedFrame[]) {
+        this.frames = recording instanceof Uint8Array ? readRecording(recording) : recording;
+    }
+
+    /**
+     * The frames that were sent in the recorded session
+     */
+    get expected(): Uint8Array[] {
+        return this.frames.filter(frame => frame.direction === 'out').map(frame => frame.data);
+    }
+
+    /**
+     * Fires the incoming frames of the recording as messages on this channel.
+     * @param realtime whether to keep the recorded delays between frames. If false, only the pending
+     * tasks are run between two frames.
+     */
+    async replay(realtime: boolean = false): Promise<void> {
+        let previous: number | undefined;
+        for (const frame of this.frames) {
+            if (frame.direction !== 'in') {
+                continue;
+            }
+            const delay = realtime && previous !== undefined ? Math.max(0, frame.timestamp - previous) : 0;
+            previous = frame.timestamp;
+            await new Promise(resolve => setTimeout(resolve, delay));
+            this.onMessageEmitter.fire(new ArrayBufferReadBuffer(frame.data));
+        }
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer(new Uint8Array(INITIAL_FRAME_SIZE));
+        result.onCommit(buffer => this.written.push(buffer));
+        return result;
+    }
+
+    close(): void {
+        this.onCloseEmitter.fire();
+    }
+}
@@ -0,0 +1,138 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { CancellationToken } from './env/cancellation';
+import { Event } from './env/event';
+import { ErrorRegistry } from './error-registry';
+
+/**
+ * The names of the methods of a service interface
+ */
+export type RpcMethodName<T> = { [K in keyof T]: T[K] extends (...args: any[]) => any ? K : never }[keyof T] & string;
+
+/**
+ * The names of the {@link Event} properties of a service interface
+ */
+export type RpcEventName<T> = { [K in keyof T]: T[K] extends Event<any> ? K : never }[keyof T] & string;
+
+/**
+ * The runtime part of a service contract. Maps the name of each method a service
+ * offers to the number of parameters it accepts.
+ */
+export interface RpcContractDescriptor<T> {
+    /**
+     * Methods that return a result. Invocations are sent as requests.
+     */
+    requests?: { [K in RpcMethodName<T>]?: number };
+    /**
+     * Methods that don't return a result. Invocations are sent as fire-and-forget notifications.
+     */
+    notifications?: { [K in RpcMethodName<T>]?: number };
+    /**
+     * Event properties. Subscribing to them on a proxy subscribes to the remote event.
+     */
+    events?: RpcEventName<T>[];
+}
+
+/**
+ * The error thrown when invoking a method that does not match the contract of a service.
+ */
+export class RpcContractError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RpcContractError';
+    }
+}
+
+ErrorRegistry.DEFAULT.register(RpcContractError);
+
+/**
+ * A service contract declares which methods of the service interface `T` can be invoked
+ * over rpc and whether they are requests or notifications.
+ * A trailing {@link CancellationToken} argument is not counted towards the arity of a request.
+ *
+ * ```ts
+ * interface Editor {
+ *     save(uri: string): Promise<boolean>;
+ *     onSave(uri: string): Promise<Result>;
+ *     notifyChanged(uri: string): void;
+ *     readonly onDidChange: Event<string>;
+ * }
+ * const EditorContract = new RpcContract<Editor>('Editor', {
+ *     requests: { save: 1, onSave: 1 },
+ *     notifications: { notifyChanged: 1 },
+ *     events: ['onDidChange']
+ * });
+ * ```
+ */
+export class RpcContract<T extends object> {
+    protected readonly requests: Map<string, number>;
+    protected readonly notifications: Map<string, number>;
+    protected readonly events: Set<string>;
+
+    constructor(readonly name: string, descriptor: RpcContractDescriptor<T>) {
+        this.requests = new Map(Object.entries(descriptor.requests || {}) as [string, number][]);
+        this.notifications = new Map(Object.entries(descriptor.notifications || {}) as [string, number][]);
+        this.events = new Set(descriptor.events || []);
+        for (const method of this.requests.keys()) {
+            if (this.notifications.has(method)) {
+                throw new RpcContractError(`${name}.${method} is declared both as a request and a notification`);
+            }
+        }
+        for (const event of this.events) {
+            if (this.requests.has(event) || this.notifications.has(event)) {
+                throw new RpcContractError(`${name}.${event} is declared both as an event and a method`);
+            }
+        }
+    }
+
+    isRequest(method: string): boolean {
+        return this.requests.has(method);
+    }
+
+    isNotification(method: string): boolean {
+        return this.notifications.has(method);
+    }
+
+    isEvent(property: string): boolean {
+        return this.events.has(property);
+    }
+
+    /**
+     * Throws a {@link RpcContractError} unless the given property is declared as an event.
+     */
+    validateEvent(property: string): void {
+        if (!this.events.has(property)) {
+            throw new RpcContractError(`${this.name}.${property} is not declared as an event`);
+        }
+    }
+
+    /**
+     * Throws a {@link RpcContractError} unless the method is declared and the arguments fit its arity.
+     * @param method the name of the invoked method
+     * @param args the arguments of the invocation
+     * @param notification whether the method was invoked as a notification
+     */
+    validate(method: string, args: any[], notification: boolean): void {
+        const arity = notification ? this.notifications.get(method) : this.requests.get(method);
+        if (arity === undefined) {
+            throw new RpcContractError(`${this.name}.${method} is not declared as a ${notification ? 'notification' : 'request'}`);
+        }
+        const argCount = !notification && args.length && CancellationToken.is(args[args.length - 1]) ? args.length - 1 : args.length;
+        if (argCount > arity) {
+            throw new RpcContractError(`${this.name}.${method} accepts ${arity} argument(s), but got ${argCount}`);
+        }
+    }
+}
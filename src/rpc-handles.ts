@@ -0,0 +1,246 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Channel } from './channel';
+import { Deferred, Disposable } from './env/event';
+import { WriteBuffer } from './message-buffer';
+import { HandleMessage, MessageDecoder, MessageEncoder, MessageType, ObjectType } from './message-encoder';
+
+const RemotableMarker = Symbol('Remotable');
+
+/**
+ * Marks an object to be passed by reference instead of by value when it is used as an rpc argument
+ * or result. The receiver gets a proxy whose method invocations are sent back to the object.
+ * Functions are always passed by reference.
+ */
+export function remotable<T extends object>(target: T): T {
+    Object.defineProperty(target, RemotableMarker, { value: true });
+    return target;
+}
+
+export function isRemotable(value: any): boolean {
+    return typeof value === 'function' || (!!value && typeof value === 'object' && value[RemotableMarker] === true);
+}
+
+/**
+ * A proxy for a function or {@link remotable} object on the other side of a channel.
+ * All invocations return promises. Disposing the proxy releases the remote reference.
+ */
+export type RemoteHandle<T> = T & Disposable;
+
+enum HandleKind {
+    Function = 0,
+    Object = 1
+}
+
+/**
+ * The ids of the handles and calls of all rpc clients and servers on one channel. All of them see all
+ * handle messages, so ids must be unique per channel for each of them to answer only the ones it owns.
+ */
+class HandleScope {
+    nextId = 0;
+    /**
+     * The owners of the handles exported over the channel
+     */
+    readonly owners: Map<number, RemoteHandles> = new Map();
+    /**
+     * The first member answers calls to handles no member owns
+     */
+    readonly members: RemoteHandles[] = [];
+
+    static of(channel: Channel): HandleScope {
+        let scope = scopes.get(channel);
+        if (!scope) {
+            scope = new HandleScope();
+            scopes.set(channel, scope);
+        }
+        return scope;
+    }
+}
+
+const scopes = new WeakMap<Channel, HandleScope>();
+
+/**
+ * Keeps track of the functions and remotable objects passed by reference over a channel. Handles we
+ * hand out are kept alive until the remote side releases them or the channel is closed. Calls to released
+ * handles are answered with an error.
+ */
+export class RemoteHandles {
+    protected readonly exported: Map<number, any> = new Map();
+    protected readonly exportedIds: Map<any, number> = new Map();
+    protected readonly imported: Map<number, any> = new Map();
+    protected readonly pendingCalls: Map<number, Deferred<any>> = new Map();
+    protected readonly scope: HandleScope;
+
+    /**
+     * @param channel the channel the handles are passed over. Handle ids are unique per channel.
+     */
+    constructor(protected readonly output: Pick<Channel, 'getWriteBuffer'>, protected readonly encoder: MessageEncoder, decoder: MessageDecoder,
+        channel: Channel) {
+        this.scope = HandleScope.of(channel);
+        this.scope.members.push(this);
+        encoder.registerEncoder(ObjectType.Handle, {
+            is: value => isRemotable(value),
+            write: (buf, value) => {
+                buf.writeByte(typeof value === 'function' ? HandleKind.Function : HandleKind.Object);
+                buf.writeInt(this.export(value));
+            }
+        });
+        decoder.registerDecoder(ObjectType.Handle, {
+            read: buf => {
+                const kind = buf.readByte();
+                return this.import(buf.readInt(), kind);
+            }
+        });
+    }
+
+    handleMessage(message: HandleMessage): void {
+        switch (message.type) {
+            case MessageType.HandleCall: {
+                this.handleCall(message.id, message.handle, message.method, message.args);
+                break;
+            }
+            case MessageType.HandleReply: {
+                this.settleCall(message.id, deferred => deferred.resolve(message.res));
+                break;
+            }
+            case MessageType.HandleReplyErr: {
+                this.settleCall(message.id, deferred => deferred.reject(message.err));
+                break;
+            }
+            case MessageType.HandleRelease: {
+                const target = this.exported.get(message.handle);
+                if (target) {
+                    this.exported.delete(message.handle);
+                    this.exportedIds.delete(target);
+                    this.scope.owners.delete(message.handle);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Drops all handles and rejects all outstanding calls with the given error
+     */
+    dispose(error: Error): void {
+        this.exported.forEach((target, id) => this.scope.owners.delete(id));
+        const index = this.scope.members.indexOf(this);
+        if (index >= 0) {
+            this.scope.members.splice(index, 1);
+        }
+        this.exported.clear();
+        this.exportedIds.clear();
+        this.imported.clear();
+        const pending = [...this.pendingCalls.values()];
+        this.pendingCalls.clear();
+        pending.forEach(deferred => deferred.reject(error));
+    }
+
+    protected export(target: any): number {
+        let id = this.exportedIds.get(target);
+        if (id === undefined) {
+            id = this.scope.nextId++;
+            this.exported.set(id, target);
+            this.exportedIds.set(target, id);
+            this.scope.owners.set(id, this);
+        }
+        return id;
+    }
+
+    protected import(id: number, kind: HandleKind): any {
+        let proxy = this.imported.get(id);
+        if (!proxy) {
+            proxy = kind === HandleKind.Function ? this.createFunctionProxy(id) : this.createObjectProxy(id);
+            this.imported.set(id, proxy);
+        }
+        return proxy;
+    }
+
+    protected createFunctionProxy(id: number): RemoteHandle<(...args: any[]) => Promise<any>> {
+        return Object.assign((...args: any[]) => this.call(id, '', args), {
+            dispose: () => this.release(id)
+        });
+    }
+
+    protected createObjectProxy(id: number): RemoteHandle<any> {
+        return new Proxy(Object.create(null), {
+            get: (target, p) => {
+                if (p === 'dispose') {
+                    return () => this.release(id);
+                }
+                // don't let the proxy look like a promise or iterable
+                if (typeof p === 'symbol' || p === 'then') {
+                    return undefined;
+                }
+                return (...args: any[]) => this.call(id, p, args);
+            }
+        });
+    }
+
+    protected call(handle: number, method: string, args: any[]): Promise<any> {
+        if (!this.imported.has(handle)) {
+            return Promise.reject(new Error(`Remote handle ${handle} has been released`));
+        }
+        const id = this.scope.nextId++;
+        const reply = new Deferred<any>();
+        this.pendingCalls.set(id, reply);
+        const output = this.output.getWriteBuffer();
+        this.encoder.handleCall(output, id, handle, method, args);
+        output.commit();
+        return reply.promise;
+    }
+
+    protected release(handle: number): void {
+        if (this.imported.delete(handle)) {
+            const output = this.output.getWriteBuffer();
+            this.encoder.handleRelease(output, handle);
+            output.commit();
+        }
+    }
+
+    protected async handleCall(id: number, handle: number, method: string, args: any[]): Promise<void> {
+        const target = this.exported.get(handle);
+        if (target === undefined) {
+            if (this.scope.owners.has(handle) || this.scope.members[0] !== this) {
+                // the handle belongs to another client or server on this channel, or that one answers
+                return;
+            }
+            // released or never exported: the caller must not wait forever
+            const output = this.output.getWriteBuffer();
+            this.encoder.handleReplyErr(output, id, new Error(`Unknown handle ${handle}`));
+            output.commit();
+            return;
+        }
+        let reply: (output: WriteBuffer) => void;
+        try {
+            const result = await (method ? target[method](...args) : target(...args));
+            reply = output => this.encoder.handleReply(output, id, result);
+        } catch (err) {
+            reply = output => this.encoder.handleReplyErr(output, id, err);
+        }
+        const output = this.output.getWriteBuffer();
+        reply(output);
+        output.commit();
+    }
+
+    protected settleCall(id: number, settle: (deferred: Deferred<any>) => void): void {
+        const deferred = this.pendingCalls.get(id);
+        if (deferred) {
+            this.pendingCalls.delete(id);
+            settle(deferred);
+        }
+    }
+}
@@ -0,0 +1,64 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Principal } from './authentication';
+import { CancellationToken } from './env/cancellation';
+
+/**
+ * Describes a single request or notification passing through the interceptors of a
+ * {@link RpcClient} or {@link RPCServer}.
+ */
+export interface RpcCallContext {
+    readonly kind: 'request' | 'notification';
+    readonly method: string;
+    /**
+     * The arguments of the call. Interceptors may replace them before calling the next interceptor.
+     */
+    args: any[];
+    /**
+     * On the server, the token that fires when the request is cancelled. On the client, the token
+     * passed as the last argument of the request, if any.
+     */
+    readonly token?: CancellationToken;
+    /**
+     * On the server, the authenticated peer that sent the call, if the channel has been authenticated
+     */
+    readonly principal?: Principal;
+    /**
+     * Storage for data shared between the interceptors of a call
+     */
+    readonly data: Map<string, any>;
+}
+
+/**
+ * An interceptor wraps the sending of a call on the client or the handling of a call on the server.
+ * It can inspect and change the call context, skip the call by not invoking `next`, invoke `next`
+ * several times to retry, and transform or observe the result and errors of the call.
+ * For notifications, the result is always `undefined`.
+ */
+export interface RpcInterceptor {
+    intercept(context: RpcCallContext, next: () => Promise<any>): Promise<any>;
+}
+
+/**
+ * Chains the given interceptors around an invocation. The first interceptor is the outermost one,
+ * so it sees the call first and the result last.
+ */
+export function composeInterceptors(interceptors: RpcInterceptor[], invoke: (context: RpcCallContext) => Promise<any>): (context: RpcCallContext) => Promise<any> {
+    return interceptors.reduceRight<(context: RpcCallContext) => Promise<any>>(
+        (next, interceptor) => async context => interceptor.intercept(context, () => next(context)),
+        async context => invoke(context)
+    );
+}
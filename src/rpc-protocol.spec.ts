@@ -0,0 +1,442 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { Channel, ChannelPipe } from './channel';
+import { CancellationError, CancellationToken, CancellationTokenSource, isCancelled } from './env/cancellation';
+import { Deferred, Emitter } from './env/event';
+import { IncompatiblePeerError, PROTOCOL_VERSION } from './handshake';
+import { HandleReplyErrMessage, HelloMessage, MessageDecoder, MessageEncoder, MessageType, RPCMessage } from './message-encoder';
+import { RemoteHandle, remotable } from './rpc-handles';
+import { RpcInterceptor } from './rpc-interceptor';
+import { ConnectionClosedError, NotificationError, RequestTimeoutError, RpcClient, RPCServer } from './rpc-protocol';
+
+describe('rpc protocol test', () => {
+    it('cancel request', async () => {
+        const pipe = new ChannelPipe();
+        const serverCancelled = new Deferred<void>();
+        let argToken: CancellationToken | undefined;
+        new RPCServer(pipe.right, (method, args, token) => {
+            argToken = args[1];
+            token.onCancellationRequested(() => serverCancelled.resolve());
+            return new Promise(() => { });
+        });
+        const client = new RpcClient(pipe.left);
+
+        const source = new CancellationTokenSource();
+        const result = client.sendRequest('wait', ['arg', source.token]);
+        expect(CancellationToken.is(argToken)).equal(true);
+        source.cancel();
+
+        const error = await result.then(() => undefined, (e: Error) => e);
+        expect(isCancelled(error)).equal(true);
+        await serverCancelled.promise;
+        expect(argToken!.isCancellationRequested).equal(true);
+    });
+
+    it('reject with a cancellation error if the server cancels', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.right, async () => {
+            throw new CancellationError();
+        });
+        const client = new RpcClient(pipe.left);
+
+        const error = await client.sendRequest('cancel', []).then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(CancellationError);
+        expect(isCancelled(error)).equal(true);
+    });
+
+    it('cancel requests when the channel closes', async () => {
+        const pipe = new ChannelPipe();
+        const serverCancelled = new Deferred<void>();
+        new RPCServer(pipe.right, (method, args, token) => {
+            token.onCancellationRequested(() => serverCancelled.resolve());
+            return new Promise(() => { });
+        });
+        const client = new RpcClient(pipe.left);
+
+        client.sendRequest('wait', []);
+        pipe.left.close();
+        await serverCancelled.promise;
+    });
+
+    it('time out requests', async () => {
+        const pipe = new ChannelPipe();
+        const serverCancelled = new Deferred<void>();
+        new RPCServer(pipe.right, (method, args, token) => {
+            token.onCancellationRequested(() => serverCancelled.resolve());
+            return new Promise(() => { });
+        });
+        const client = new RpcClient(pipe.left, { timeout: 10000 });
+
+        const error = await client.sendRequest('wait', [], { timeout: 10 }).then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(RequestTimeoutError);
+        await serverCancelled.promise;
+    });
+
+    it('reject pending requests when the channel closes', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.left, () => new Promise(() => { }));
+        const client = new RpcClient(pipe.right);
+
+        const result = client.sendRequest('wait', []);
+        pipe.left.close();
+        const error = await result.then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(ConnectionClosedError);
+    });
+
+    it('forget requests whose arguments cannot be encoded', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.left, () => new Promise(() => { }));
+        const client = new RpcClient(pipe.right);
+
+        const error = await client.sendRequest('bad', [Symbol()]).then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(Error);
+
+        // a request left pending would be rejected without anyone listening
+        const unhandled: any[] = [];
+        const listener = (reason: any) => unhandled.push(reason);
+        process.on('unhandledRejection', listener);
+        try {
+            pipe.left.close();
+            await new Promise(resolve => setTimeout(resolve, 10));
+        } finally {
+            process.off('unhandledRejection', listener);
+        }
+        expect(unhandled).length(0);
+    });
+
+    it('report subscriptions to unknown events to the client', async () => {
+        const pipe = new ChannelPipe();
+        const changed = new Emitter<string>();
+        new RPCServer(pipe.right, async () => undefined, event => {
+            if (event !== 'onDidChange') {
+                throw new Error(`Unknown event ${event}`);
+            }
+            return changed.event;
+        });
+        const client = new RpcClient(pipe.left);
+
+        const received: string[] = [];
+        const failed = new Deferred<Error>();
+        client.subscribe('onDidChange', value => received.push(value), error => failed.reject(error));
+        client.subscribe('onDidVanish', value => received.push(value), error => failed.resolve(error));
+        const error = await failed.promise;
+        expect(error.message).contains('onDidVanish');
+        changed.fire('still subscribed');
+        expect(received).deep.equal(['still subscribed']);
+    });
+
+    it('stream results', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.right, async () => (async function* (): AsyncGenerator<number> {
+            yield 1;
+            yield 2;
+            yield 3;
+        })());
+        const client = new RpcClient(pipe.left);
+
+        const items: number[] = [];
+        for await (const item of await client.sendRequest<AsyncIterable<number>>('numbers', [])) {
+            items.push(item);
+        }
+        expect(items).deep.equal([1, 2, 3]);
+    });
+
+    it('reject stream iteration on stream errors', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.right, async () => (async function* (): AsyncGenerator<number> {
+            yield 1;
+            throw new Error('failed');
+        })());
+        const client = new RpcClient(pipe.left);
+
+        const items: number[] = [];
+        const stream = await client.sendRequest<AsyncIterable<number>>('numbers', []);
+        const error = await (async () => {
+            for await (const item of stream) {
+                items.push(item);
+            }
+        })().then(() => undefined, (e: Error) => e);
+        expect(items).deep.equal([1]);
+        expect(error).not.equal(undefined);
+    });
+
+    it('cancel stream production when the client stops iterating', async () => {
+        const pipe = new ChannelPipe();
+        const stopped = new Deferred<void>();
+        new RPCServer(pipe.right, async () => (async function* (): AsyncGenerator<number> {
+            try {
+                for (let i = 0; ; i++) {
+                    yield i;
+                    await new Promise(resolve => setTimeout(resolve, 1));
+                }
+            } finally {
+                stopped.resolve();
+            }
+        })());
+        const client = new RpcClient(pipe.left);
+
+        for await (const item of await client.sendRequest<AsyncIterable<number>>('numbers', [])) {
+            if (item === 2) {
+                break;
+            }
+        }
+        await stopped.promise;
+    });
+
+    it('pass callbacks by reference', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.right, async (method, args) => {
+            const callback: RemoteHandle<(value: number) => Promise<number>> = args[0];
+            const result = await callback(2);
+            callback.dispose();
+            return result;
+        });
+        const client = new RpcClient(pipe.left);
+
+        expect(await client.sendRequest('call', [(value: number) => value * 2])).equal(4);
+    });
+
+    it('answer calls to released handles with an error', async () => {
+        const pipe = new ChannelPipe();
+        const encoder = new MessageEncoder();
+        const decoder = new MessageDecoder();
+        new RPCServer(pipe.right, async (method, args) => {
+            args[0].dispose();
+        });
+        const client = new RpcClient(pipe.left);
+        await client.sendRequest('release', [() => 'called']);
+        const replies: RPCMessage[] = [];
+        pipe.right.onMessage(data => replies.push(decoder.parse(data.sliceAtReadPosition())));
+
+        // the callback is the first handle exported over the channel
+        const output = pipe.right.getWriteBuffer();
+        encoder.handleCall(output, 1000, 0, '', []);
+        output.commit();
+        const reply = replies.find(message => message.type === MessageType.HandleReplyErr && message.id === 1000);
+        expect(reply).not.equal(undefined);
+        expect((reply as HandleReplyErrMessage).err.message).equal('Unknown handle 0');
+    });
+
+    it('pass remotable objects by reference', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.right, async () => remotable({
+            greet: (name: string) => `hello ${name}`
+        }));
+        const client = new RpcClient(pipe.left);
+
+        const greeter = await client.sendRequest<RemoteHandle<{ greet(name: string): Promise<string> }>>('greeter', []);
+        expect(await greeter.greet('world')).equal('hello world');
+        greeter.dispose();
+        const error = await greeter.greet('world').then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(Error);
+    });
+
+    it('batch messages written in the same tick', async () => {
+        const pipe = new ChannelPipe();
+        const server = new RPCServer(pipe.right, async (method, args) => args[0], undefined, { batching: {} });
+        const notifications: any[] = [];
+        server.onNotification(e => notifications.push(e.args[0]));
+        const client = new RpcClient(pipe.left, { batching: {} });
+        await Promise.all([client.handshake, server.handshake]);
+        let frames = 0;
+        pipe.right.onMessage(() => frames++);
+
+        client.sendNotification('notify', [1]);
+        client.sendNotification('notify', [2]);
+        const replies = Promise.all([client.sendRequest('echo', ['a']), client.sendRequest('echo', ['b'])]);
+
+        expect(await replies).deep.equal(['a', 'b']);
+        expect(notifications).deep.equal([1, 2]);
+        expect(frames).equal(1);
+    });
+
+    it('keep messages that fail to encode out of the batch', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.right, async (method, args) => args[0], undefined, { batching: {} });
+        const client = new RpcClient(pipe.left, { batching: {} });
+
+        const bad = client.sendRequest('bad', [Symbol()]).then(() => undefined, (e: Error) => e);
+        const good = client.sendRequest('good', [1]);
+
+        expect(await bad).instanceOf(Error);
+        expect(await good).equal(1);
+    });
+
+    it('send batches that exceed the maximum size right away', async () => {
+        const pipe = new ChannelPipe();
+        const server = new RPCServer(pipe.right, async () => undefined);
+        const client = new RpcClient(pipe.left, { batching: { maxBatchSize: 100 } });
+        await server.handshake;
+        let frames = 0;
+        pipe.right.onMessage(() => frames++);
+
+        client.sendNotification('notify', ['x'.repeat(100)]);
+        expect(frames).equal(1);
+    });
+
+    it('keep shared objects and cycles when tracking references', async () => {
+        const pipe = new ChannelPipe();
+        new RPCServer(pipe.right, async (method, args) => {
+            expect(args[0].self).equal(args[0]);
+            return { first: args[0], second: args[0] };
+        }, undefined, { trackReferences: true });
+        const client = new RpcClient(pipe.left, { trackReferences: true });
+
+        const node: any = { name: 'node' };
+        node.self = node;
+        const reply: any = await client.sendRequest('echo', [node]);
+        expect(reply.first).equal(reply.second);
+        expect(reply.first.self).equal(reply.first);
+        expect(reply.first.name).equal('node');
+    });
+
+    it('agree on the protocol version', async () => {
+        const pipe = new ChannelPipe();
+        const server = new RPCServer(pipe.right, async () => undefined);
+        const client = new RpcClient(pipe.left);
+        expect((await client.handshake).version).equal(PROTOCOL_VERSION);
+        expect((await server.handshake).version).equal(PROTOCOL_VERSION);
+    });
+
+    it('answer only the hellos of the opposite role when clients and servers share a channel', async () => {
+        const pipe = new ChannelPipe();
+        const hellos: HelloMessage[] = [];
+        const decoder = new MessageDecoder();
+        [pipe.left, pipe.right].forEach(channel => channel.onMessage(data => {
+            const message = decoder.parse(data.sliceAtReadPosition());
+            if (message.type === MessageType.Hello) {
+                hellos.push(message);
+            }
+        }));
+        const servers = [new RPCServer(pipe.left, async () => 'left'), new RPCServer(pipe.right, async () => 'right')];
+        const clients = [new RpcClient(pipe.left), new RpcClient(pipe.right)];
+
+        expect(await clients[0].sendRequest('side', [])).equal('right');
+        expect(await clients[1].sendRequest('side', [])).equal('left');
+        await Promise.all([...clients, ...servers].map(party => party.handshake));
+        // one hello of each client and one answer of each server
+        expect(hellos.map(hello => hello.role)).deep.equal(['client', 'server', 'client', 'server']);
+    });
+
+    it('reject requests if the server cannot decode the values of the client', async () => {
+        class DateClient extends RpcClient {
+            constructor(channel: Channel) {
+                super(channel);
+                this.encoder.registerEncoder(42, {
+                    is: value => value instanceof Date,
+                    write: (buf, value) => buf.writeNumber(value.getTime())
+                });
+            }
+        }
+        const pipe = new ChannelPipe();
+        const server = new RPCServer(pipe.right, async () => undefined);
+        const client = new DateClient(pipe.left);
+
+        const pending = client.sendRequest('wait', []);
+        const error = await client.handshake.then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(IncompatiblePeerError);
+        expect(error!.message).contains('42');
+        expect(await server.handshake.then(() => undefined, (e: Error) => e)).instanceOf(IncompatiblePeerError);
+        expect(await pending.then(() => undefined, (e: Error) => e)).equal(error);
+        expect(await client.sendRequest('wait', []).then(() => undefined, (e: Error) => e)).equal(error);
+    });
+
+    it('run interceptors in order', async () => {
+        const pipe = new ChannelPipe();
+        const log: string[] = [];
+        const logger = (name: string): RpcInterceptor => ({
+            intercept: async (context, next) => {
+                log.push(`${name} ${context.kind} ${context.method}`);
+                const result = await next();
+                log.push(`${name} done`);
+                return result;
+            }
+        });
+        const server = new RPCServer(pipe.right, async (method, args) => args[0], undefined, {
+            interceptors: [logger('server')]
+        });
+        server.onNotification(() => log.push('notified'));
+        const client = new RpcClient(pipe.left, {
+            interceptors: [logger('outer'), {
+                intercept: async (context, next) => {
+                    context.args = context.args.map(arg => arg === 'secret' ? '***' : arg);
+                    return `${await next()}!`;
+                }
+            }]
+        });
+
+        expect(await client.sendRequest('echo', ['secret'])).equal('***!');
+        client.sendNotification('notify', []);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(log).deep.equal([
+            'outer request echo', 'server request echo', 'server done', 'outer done',
+            'outer notification notify', 'server notification notify', 'notified', 'server done', 'outer done'
+        ]);
+    });
+
+    it('short-circuit calls in interceptors', async () => {
+        const pipe = new ChannelPipe();
+        let called = false;
+        new RPCServer(pipe.right, async () => called = true, undefined, {
+            interceptors: [{
+                intercept: async context => {
+                    throw new Error(`${context.method} is not allowed`);
+                }
+            }]
+        });
+        const client = new RpcClient(pipe.left);
+
+        const error = await client.sendRequest('delete', []).then(() => undefined, (e: Error) => e);
+        expect(error?.message).equal('delete is not allowed');
+        expect(called).equal(false);
+    });
+
+    it('report notifications rejected by interceptors', async () => {
+        const pipe = new ChannelPipe();
+        const forbidden: RpcInterceptor = {
+            intercept: async (context, next) => {
+                if (context.method === 'forbidden') {
+                    throw new Error(`${context.method} is not allowed`);
+                }
+                return next();
+            }
+        };
+        const server = new RPCServer(pipe.right, async () => undefined, undefined, { interceptors: [forbidden] });
+        const notifications: string[] = [];
+        const errors: NotificationError[] = [];
+        server.onNotification(e => notifications.push(e.method));
+        server.onNotificationError(e => errors.push(e));
+        const client = new RpcClient(pipe.left, { interceptors: [forbidden] });
+        const clientErrors: NotificationError[] = [];
+        client.onNotificationError(e => clientErrors.push(e));
+
+        await client.sendNotification('forbidden', []);
+        expect(clientErrors).length(1);
+        expect(clientErrors[0].method).equal('forbidden');
+        expect(clientErrors[0].error.message).equal('forbidden is not allowed');
+
+        // bypass the client interceptor to reach the one on the server
+        const unchecked = new RpcClient(pipe.left);
+        await unchecked.sendNotification('forbidden', [1]);
+        await unchecked.sendNotification('allowed', []);
+        expect(notifications).deep.equal(['allowed']);
+        expect(errors).length(1);
+        expect(errors[0].method).equal('forbidden');
+        expect(errors[0].args).deep.equal([1]);
+        expect(errors[0].error.message).equal('forbidden is not allowed');
+    });
+});
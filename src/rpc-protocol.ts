@@ -14,31 +14,189 @@
  * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
  ********************************************************************************/
 
-import { Emitter, Event, Deferred } from './env/event';
+import { Disposable, Emitter, Event, Deferred } from './env/event';
+import { CancellationToken, CancellationTokenSource, cancelled } from './env/cancellation';
 import { Channel } from './channel';
-import { ReadBuffer } from './message-buffer';
-import { MessageDecoder, MessageEncoder, MessageType } from './message-encoder';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+import { BatchingOptions, MessageBatcher } from './message-batcher';
+import { HelloMessage, MessageDecoder, MessageEncoder, MessageType, RPCMessage } from './message-encoder';
+import { ErrorRegistry } from './error-registry';
+import { Handshake, HandshakeResult, IncompatiblePeerError, rpcProtocolInfo } from './handshake';
+import { RemoteHandles } from './rpc-handles';
+import { composeInterceptors, RpcCallContext, RpcInterceptor } from './rpc-interceptor';
+
+/**
+ * Placeholder sent in place of a {@link CancellationToken} argument. The server replaces it
+ * with the token it creates for the request.
+ */
+export const CANCELLATION_TOKEN_KEY = 'add.cancellation.token';
+
+/**
+ * The error used to reject a request that has not received a reply within its timeout
+ */
+export class RequestTimeoutError extends Error {
+    constructor(readonly method: string, readonly timeout: number) {
+        super(`Request '${method}' timed out after ${timeout} ms`);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+/**
+ * The error used to reject all outstanding requests when the underlying channel is closed or fails
+ */
+export class ConnectionClosedError extends Error {
+    constructor(readonly reason?: any) {
+        super(reason ? `Connection lost: ${reason}` : 'Connection lost');
+        this.name = 'ConnectionClosedError';
+    }
+}
+
+ErrorRegistry.DEFAULT.register(RequestTimeoutError);
+ErrorRegistry.DEFAULT.register(ConnectionClosedError);
+ErrorRegistry.DEFAULT.register(IncompatiblePeerError);
+
+export interface RequestOptions {
+    /**
+     * Time in ms after which the request is cancelled and rejected with a {@link RequestTimeoutError}.
+     * A value of zero or less disables the timeout.
+     */
+    timeout?: number;
+}
+
+export interface RpcClientOptions {
+    /**
+     * The default timeout in ms for requests. Requests do not time out if not set.
+     */
+    timeout?: number;
+    /**
+     * Enables sending the messages written in the same tick as a single batch.
+     */
+    batching?: BatchingOptions;
+    /**
+     * Interceptors wrapping every request and notification sent by the client, outermost first.
+     */
+    interceptors?: RpcInterceptor[];
+    /**
+     * Keeps the identity of objects that occur several times in a message, including cycles.
+     * See {@link MessageEncoderOptions.trackReferences}.
+     */
+    trackReferences?: boolean;
+}
+
+export interface RPCServerOptions {
+    /**
+     * Enables sending the messages written in the same tick as a single batch.
+     */
+    batching?: BatchingOptions;
+    /**
+     * Interceptors wrapping the handling of every request and notification, outermost first.
+     */
+    interceptors?: RpcInterceptor[];
+    /**
+     * Keeps the identity of objects that occur several times in a message, including cycles.
+     * See {@link MessageEncoderOptions.trackReferences}.
+     */
+    trackReferences?: boolean;
+}
+
+/**
+ * A notification that could not be sent or handled. Notifications have no reply, so the error is reported
+ * on the side where it happened.
+ */
+export interface NotificationError {
+    method: string;
+    args: any[];
+    error: any;
+}
+
+function isAsyncIterable(value: any): value is AsyncIterable<any> {
+    return !!value && typeof value[Symbol.asyncIterator] === 'function';
+}
+
 /**
  * A RCPServer reads rcp request and notification messages and sends the reply values or
  * errors from the request to the channel.
+ * Every request handler invocation receives a {@link CancellationToken} that fires when the
+ * client cancels the request or the channel is closed.
+ * Clients can subscribe to the events returned by the `eventSource`. Event values are sent back
+ * as event notifications until the client unsubscribes or the channel is closed. If there is no such
+ * event, the client gets a subscription error.
+ * If a request handler returns an `AsyncIterable`, its items are streamed to the client until the
+ * iterable is exhausted or the client cancels the request.
+ * Functions and {@link remotable} objects in arguments and results are passed by reference.
+ * The server answers the hello of a client to complete the {@link handshake}. Messages from an incompatible
+ * peer are ignored.
  */
 export class RPCServer {
-    protected readonly encoder: MessageEncoder = new MessageEncoder();
+    protected readonly encoder: MessageEncoder = new MessageEncoder({ trackReferences: this.options.trackReferences });
     protected readonly decoder: MessageDecoder = new MessageDecoder();
+    protected readonly writer: MessageBatcher;
+    protected readonly handles: RemoteHandles;
+    protected readonly cancellationTokenSources: Map<number, CancellationTokenSource> = new Map();
+    protected readonly subscriptions: Map<number, Disposable> = new Map();
+    protected readonly handshakeState: Handshake = new Handshake(() => rpcProtocolInfo(this.encoder, this.decoder));
     protected onNotificationEmitter: Emitter<{ method: string; args: any[]; }> = new Emitter();
 
     get onNotification(): Event<{ method: string; args: any[]; }> {
         return this.onNotificationEmitter.event;
     }
 
-    constructor(protected channel: Channel, public readonly requestHandler: (method: string, args: any[]) => Promise<any>) {
-        const registration = channel.onMessage((data: ReadBuffer) => this.handleMessage(data));
-        channel.onClose(() => registration.dispose());
+    protected readonly onNotificationErrorEmitter: Emitter<NotificationError> = new Emitter();
+    /**
+     * Fires when an interceptor or a notification listener fails, since notifications have no reply
+     * to carry the error
+     */
+    get onNotificationError(): Event<NotificationError> {
+        return this.onNotificationErrorEmitter.event;
+    }
+
+    constructor(protected channel: Channel, public readonly requestHandler: (method: string, args: any[], token: CancellationToken) => Promise<any>,
+        public readonly eventSource?: (event: string) => Event<any>, protected readonly options: RPCServerOptions = {}) {
+        this.writer = new MessageBatcher(channel, this.encoder, options.batching);
+        this.handles = new RemoteHandles(this.writer, this.encoder, this.decoder, channel);
+        // a client and a server may share a channel, so each reads the message on its own
+        const registration = channel.onMessage((data: ReadBuffer) => this.handleMessage(data.sliceAtReadPosition()));
+        channel.onClose(() => {
+            registration.dispose();
+            this.cancelAll();
+            this.unsubscribeAll();
+            this.handles.dispose(new ConnectionClosedError());
+        });
+    }
+
+    /**
+     * Resolves when the protocol version and the value tags have been agreed on with the client,
+     * or rejects with an {@link IncompatiblePeerError}.
+     */
+    get handshake(): Promise<HandshakeResult> {
+        return this.handshakeState.result;
     }
 
     handleMessage(data: ReadBuffer): void {
-        const message = this.decoder.parse(data);
+        this.dispatch(this.decoder.parse(data));
+    }
+
+    protected dispatch(message: RPCMessage): void {
+        if (this.handshakeState.error && message.type !== MessageType.Hello) {
+            // the client has failed the handshake, too, and doesn't expect answers
+            return;
+        }
         switch (message.type) {
+            case MessageType.Batch: {
+                message.messages.forEach(batched => this.dispatch(batched));
+                break;
+            }
+            case MessageType.Hello: {
+                this.handleHello(message);
+                break;
+            }
+            case MessageType.HandleCall:
+            case MessageType.HandleReply:
+            case MessageType.HandleReplyErr:
+            case MessageType.HandleRelease: {
+                this.handles.handleMessage(message);
+                break;
+            }
             case MessageType.Cancel: {
                 this.handleCancel(message.id);
                 break;
@@ -51,38 +209,213 @@ export class RPCServer {
                 this.handleNotify(message.id, message.method, message.args);
                 break;
             }
+            case MessageType.Subscribe: {
+                this.handleSubscribe(message.id, message.event);
+                break;
+            }
+            case MessageType.Unsubscribe: {
+                this.handleUnsubscribe(message.id);
+                break;
+            }
         }
     }
 
+    protected handleHello(message: HelloMessage): void {
+        // hellos of servers are meant for a client sharing the channel
+        if (message.role === 'client') {
+            const output = this.writer.getWriteBuffer();
+            this.encoder.hello(output, 'server', this.handshakeState.local);
+            output.commit();
+            this.handshakeState.complete(message.info);
+        }
+    }
+
+    protected handleSubscribe(id: number, eventName: string): void {
+        let event: Event<any> | undefined;
+        try {
+            event = this.eventSource?.(eventName);
+            if (!event) {
+                throw new Error(`No event '${eventName}'`);
+            }
+        } catch (err) {
+            const output = this.writer.getWriteBuffer();
+            this.encoder.subscriptionError(output, id, err);
+            output.commit();
+            return;
+        }
+        const subscription = event(value => {
+            const output = this.writer.getWriteBuffer();
+            this.encoder.eventNotification(output, id, value);
+            output.commit();
+        });
+        this.subscriptions.set(id, subscription);
+    }
+
+    protected handleUnsubscribe(id: number): void {
+        const subscription = this.subscriptions.get(id);
+        if (subscription) {
+            this.subscriptions.delete(id);
+            subscription.dispose();
+        }
+    }
+
+    protected unsubscribeAll(): void {
+        this.subscriptions.forEach(subscription => subscription.dispose());
+        this.subscriptions.clear();
+    }
+
 
     protected handleCancel(id: number): void {
-        // implement cancellation
-        /*        const token = this.cancellationTokens.get(id);
-                if (token) {
-                    this.cancellationTokens.delete(id);
-                    token.cancel();
-                } else {
-                    console.warn(`cancel: no token for message: ${id}`);
-                }*/
+        const tokenSource = this.cancellationTokenSources.get(id);
+        if (tokenSource) {
+            this.cancellationTokenSources.delete(id);
+            tokenSource.cancel();
+        }
+    }
+
+    protected cancelAll(): void {
+        this.cancellationTokenSources.forEach(tokenSource => tokenSource.cancel());
+        this.cancellationTokenSources.clear();
     }
 
     protected async handleRequest(id: number, method: string, args: any[]): Promise<void> {
-        const output = this.channel.getWriteBuffer();
+        const tokenSource = new CancellationTokenSource();
+        this.cancellationTokenSources.set(id, tokenSource);
+        if (args.length && args[args.length - 1] === CANCELLATION_TOKEN_KEY) {
+            args[args.length - 1] = tokenSource.token;
+        }
         try {
             // console.log(`handling request ${method} with id ${id}`);
-            const result = await this.requestHandler(method, args);
-            this.encoder.replyOK(output, id, result);
+            const context: RpcCallContext = { kind: 'request', method, args, token: tokenSource.token, principal: this.channel.principal, data: new Map() };
+            const result = await composeInterceptors(this.options.interceptors || [],
+                ({ method, args }) => this.requestHandler(method, args, tokenSource.token))(context);
+            if (isAsyncIterable(result)) {
+                await this.sendStream(id, result, tokenSource.token);
+            } else {
+                this.reply(tokenSource.token, output => this.encoder.replyOK(output, id, result));
+            }
             // console.log(`handled request ${method} with id ${id}`);
         } catch (err) {
-            this.encoder.replyErr(output, id, err);
+            this.reply(tokenSource.token, output => this.encoder.replyErr(output, id, err));
             console.log(`error on request ${method} with id ${id}`);
+        } finally {
+            this.cancellationTokenSources.delete(id);
+        }
+    }
+
+    /**
+     * Writes a reply message unless the request has been cancelled. In that case, the
+     * client has already rejected the request.
+     */
+    protected reply(token: CancellationToken, write: (output: WriteBuffer) => void): void {
+        if (!token.isCancellationRequested) {
+            const output = this.writer.getWriteBuffer();
+            write(output);
+            output.commit();
+        }
+    }
+
+    protected async sendStream(id: number, stream: AsyncIterable<any>, token: CancellationToken): Promise<void> {
+        const iterator = stream[Symbol.asyncIterator]();
+        try {
+            while (!token.isCancellationRequested) {
+                // don't pull items faster than the channel can send them
+                await this.channel.whenWritable?.();
+                const next = await iterator.next();
+                if (next.done) {
+                    this.reply(token, output => this.encoder.streamEnd(output, id));
+                    return;
+                }
+                this.reply(token, output => this.encoder.streamItem(output, id, next.value));
+            }
+            // let the producer clean up
+            await iterator.return?.();
+        } catch (err) {
+            this.reply(token, output => this.encoder.streamError(output, id, err));
         }
-        output.commit();
     }
 
     protected async handleNotify(id: number, method: string, args: any[]): Promise<void> {
         // console.log(`handling notification ${method} with id ${id}`);
-        this.onNotificationEmitter.fire({ method, args });
+        const context: RpcCallContext = { kind: 'notification', method, args, principal: this.channel.principal, data: new Map() };
+        try {
+            await composeInterceptors(this.options.interceptors || [], async ({ method, args }) => {
+                this.onNotificationEmitter.fire({ method, args });
+            })(context);
+        } catch (error) {
+            this.onNotificationErrorEmitter.fire({ method, args, error });
+        }
+    }
+}
+
+interface RemoteSubscription {
+    listener: (value: any) => void;
+    onError?: (error: any) => void;
+}
+
+/**
+ * The client side of a streamed request result. Items are queued until they are consumed.
+ */
+class RemoteStream implements AsyncIterableIterator<any> {
+    protected readonly items: any[] = [];
+    protected done = false;
+    protected failed = false;
+    protected error: any;
+    protected waiting: Deferred<void> | undefined;
+
+    constructor(protected readonly onReturn: () => void) {
+    }
+
+    push(item: any): void {
+        this.items.push(item);
+        this.notify();
+    }
+
+    end(): void {
+        this.done = true;
+        this.notify();
+    }
+
+    fail(error: any): void {
+        this.failed = true;
+        this.error = error;
+        this.end();
+    }
+
+    protected notify(): void {
+        const waiting = this.waiting;
+        this.waiting = undefined;
+        waiting?.resolve();
+    }
+
+    async next(): Promise<IteratorResult<any>> {
+        while (true) {
+            if (this.items.length) {
+                return { done: false, value: this.items.shift() };
+            }
+            if (this.failed) {
+                this.failed = false;
+                throw this.error;
+            }
+            if (this.done) {
+                return { done: true, value: undefined };
+            }
+            this.waiting = new Deferred();
+            await this.waiting.promise;
+        }
+    }
+
+    async return(): Promise<IteratorResult<any>> {
+        if (!this.done) {
+            this.items.length = 0;
+            this.end();
+            this.onReturn();
+        }
+        return { done: true, value: undefined };
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<any> {
+        return this;
     }
 }
 
@@ -91,23 +424,81 @@ export class RPCServer {
  * Clients can get a promise for the request result that will be either resolved or 
  * rejected depending on the success of the request.
  * The RpcClient keeps track of outstanding requests and matches replies to the appropriate request
- * Currently, there is no timeout handling implemented in the client.
+ * Requests that take longer than their timeout are cancelled and rejected with a {@link RequestTimeoutError}.
+ * When the channel is closed or reports an error, all outstanding requests are rejected with
+ * a {@link ConnectionClosedError}.
+ * If the last argument of a request is a {@link CancellationToken}, cancelling the token sends a
+ * cancel message to the server and rejects the request with a {@link CancellationError}.
+ * Remote events can be subscribed to with {@link subscribe}. All subscriptions end when the channel is closed.
+ * If the server streams the result of a request, the request resolves to an `AsyncIterable` over the
+ * streamed items. Ending the iteration early cancels the stream on the server.
+ * Functions and {@link remotable} objects in arguments and results are passed by reference.
+ * The client starts the {@link handshake} with a hello the server answers. If the handshake fails, all requests
+ * are rejected with an {@link IncompatiblePeerError}.
  */
 export class RpcClient {
     protected readonly pendingRequests: Map<number, Deferred<any>> = new Map();
+    protected readonly streams: Map<number, RemoteStream> = new Map();
+    protected readonly subscriptions: Map<number, RemoteSubscription> = new Map();
     protected nextMessageId: number = 0;
 
-    protected readonly encoder: MessageEncoder = new MessageEncoder();
+    protected readonly encoder: MessageEncoder = new MessageEncoder({ trackReferences: this.options.trackReferences });
     protected readonly decoder: MessageDecoder = new MessageDecoder();
+    protected readonly writer: MessageBatcher;
+    protected readonly handles: RemoteHandles;
+    protected readonly handshakeState: Handshake = new Handshake(() => rpcProtocolInfo(this.encoder, this.decoder));
+    protected helloSent = false;
 
-    constructor(protected channel: Channel) {
-        const registration = channel.onMessage((data: ReadBuffer) => this.handleMessage(data));
-        channel.onClose(() => registration.dispose());
+    protected readonly onNotificationErrorEmitter: Emitter<NotificationError> = new Emitter();
+    get onNotificationError(): Event<NotificationError> {
+        return this.onNotificationErrorEmitter.event;
+    }
+
+    constructor(protected channel: Channel, protected readonly options: RpcClientOptions = {}) {
+        this.writer = new MessageBatcher(channel, this.encoder, options.batching);
+        this.handles = new RemoteHandles(this.writer, this.encoder, this.decoder, channel);
+        // a client and a server may share a channel, so each reads the message on its own
+        const registration = channel.onMessage((data: ReadBuffer) => this.handleMessage(data.sliceAtReadPosition()));
+        channel.onClose(() => {
+            registration.dispose();
+            this.rejectAll(new ConnectionClosedError());
+            this.subscriptions.clear();
+            this.handles.dispose(new ConnectionClosedError());
+        });
+        channel.onError(error => this.rejectAll(new ConnectionClosedError(error)));
+        // give subclasses the chance to register their encoders before we announce them
+        Promise.resolve().then(() => this.sendHello());
+    }
+
+    /**
+     * Resolves when the protocol version and the value tags have been agreed on with the server,
+     * or rejects with an {@link IncompatiblePeerError}.
+     */
+    get handshake(): Promise<HandshakeResult> {
+        return this.handshakeState.result;
     }
 
     handleMessage(data: ReadBuffer): void {
-        const message = this.decoder.parse(data);
+        this.dispatch(this.decoder.parse(data));
+    }
+
+    protected dispatch(message: RPCMessage): void {
         switch (message.type) {
+            case MessageType.Batch: {
+                message.messages.forEach(batched => this.dispatch(batched));
+                break;
+            }
+            case MessageType.Hello: {
+                this.handleHello(message);
+                break;
+            }
+            case MessageType.HandleCall:
+            case MessageType.HandleReply:
+            case MessageType.HandleReplyErr:
+            case MessageType.HandleRelease: {
+                this.handles.handleMessage(message);
+                break;
+            }
             case MessageType.Reply: {
                 this.handleReply(message.id, message.res);
                 break;
@@ -116,6 +507,89 @@ export class RpcClient {
                 this.handleReplyErr(message.id, message.err);
                 break;
             }
+            case MessageType.EventNotification: {
+                this.handleEventNotification(message.id, message.value);
+                break;
+            }
+            case MessageType.SubscriptionError: {
+                this.handleSubscriptionError(message.id, message.err);
+                break;
+            }
+            case MessageType.StreamItem: {
+                this.getStream(message.id)?.push(message.value);
+                break;
+            }
+            case MessageType.StreamEnd: {
+                this.endStream(message.id)?.end();
+                break;
+            }
+            case MessageType.StreamError: {
+                this.endStream(message.id)?.fail(message.err);
+                break;
+            }
+        }
+    }
+
+    protected handleHello(message: HelloMessage): void {
+        // hellos of clients are meant for a server sharing the channel
+        if (message.role === 'server') {
+            const error = this.handshakeState.complete(message.info);
+            if (error) {
+                this.rejectAll(error);
+            }
+        }
+    }
+
+    /**
+     * Sends the hello, unless it has been sent already. Messages written before the hello would be sent
+     * would otherwise overtake it.
+     */
+    protected sendHello(): void {
+        if (!this.helloSent) {
+            this.helloSent = true;
+            const output = this.writer.getWriteBuffer();
+            this.encoder.hello(output, 'client', this.handshakeState.local);
+            output.commit();
+        }
+    }
+
+    /**
+     * Returns the stream for the given request. The first stream message for a pending request
+     * resolves the request with a new stream.
+     */
+    protected getStream(id: number): RemoteStream | undefined {
+        const replyHandler = this.pendingRequests.get(id);
+        if (replyHandler) {
+            this.pendingRequests.delete(id);
+            const stream = new RemoteStream(() => {
+                if (this.streams.delete(id)) {
+                    const output = this.writer.getWriteBuffer();
+                    this.encoder.cancel(output, id);
+                    output.commit();
+                }
+            });
+            this.streams.set(id, stream);
+            replyHandler.resolve(stream);
+            return stream;
+        }
+        return this.streams.get(id);
+    }
+
+    protected endStream(id: number): RemoteStream | undefined {
+        const stream = this.getStream(id);
+        this.streams.delete(id);
+        return stream;
+    }
+
+    protected handleEventNotification(id: number, value: any): void {
+        this.subscriptions.get(id)?.listener(value);
+    }
+
+    protected handleSubscriptionError(id: number, error: any): void {
+        const subscription = this.subscriptions.get(id);
+        if (subscription) {
+            this.subscriptions.delete(id);
+            subscription.onError?.(error);
         }
     }
 
@@ -141,21 +615,112 @@ export class RpcClient {
         }
     }
 
-    sendRequest<T>(method: string, args: any[]): Promise<T> {
+    sendRequest<T>(method: string, args: any[], options: RequestOptions = {}): Promise<T> {
+        const token: CancellationToken | undefined = args.length && CancellationToken.is(args[args.length - 1]) ? args[args.length - 1] : undefined;
+        const context: RpcCallContext = { kind: 'request', method, args, token, data: new Map() };
+        return composeInterceptors(this.options.interceptors || [], ({ method, args }) => this.doSendRequest(method, args, options))(context);
+    }
+
+    protected doSendRequest<T>(method: string, args: any[], options: RequestOptions): Promise<T> {
+        if (this.handshakeState.error) {
+            return Promise.reject(this.handshakeState.error);
+        }
+        const token: CancellationToken | undefined = args.length && CancellationToken.is(args[args.length - 1]) ? args[args.length - 1] : undefined;
+        if (token) {
+            if (token.isCancellationRequested) {
+                return Promise.reject(cancelled());
+            }
+            args = [...args.slice(0, -1), CANCELLATION_TOKEN_KEY];
+        }
         const id = this.nextMessageId++;
         const reply = new Deferred<T>();
         // console.log(`sending request ${method} with id ${id}`);
 
         this.pendingRequests.set(id, reply);
-        const output = this.channel.getWriteBuffer();
-        this.encoder.request(output, id, method, args);
+        this.sendHello();
+        const output = this.writer.getWriteBuffer();
+        try {
+            this.encoder.request(output, id, method, args);
+        } catch (error) {
+            // nobody would listen if the request was rejected later on
+            this.pendingRequests.delete(id);
+            throw error;
+        }
         output.commit();
+        if (token) {
+            const registration = token.onCancellationRequested(() => this.cancelRequest(id, cancelled()));
+            reply.promise.then(() => registration.dispose(), () => registration.dispose());
+        }
+        const timeout = options.timeout ?? this.options.timeout;
+        if (timeout && timeout > 0) {
+            const handle = setTimeout(() => this.cancelRequest(id, new RequestTimeoutError(method, timeout)), timeout);
+            reply.promise.then(() => clearTimeout(handle), () => clearTimeout(handle));
+        }
         return reply.promise;
     }
 
-    sendNotification(method: string, args: any[]): void {
+    /**
+     * Sends a cancel message for the given pending request and rejects it with the given error
+     */
+    protected cancelRequest(id: number, error: Error): void {
+        const replyHandler = this.pendingRequests.get(id);
+        if (replyHandler) {
+            this.pendingRequests.delete(id);
+            const output = this.writer.getWriteBuffer();
+            this.encoder.cancel(output, id);
+            output.commit();
+            replyHandler.reject(error);
+        }
+    }
+
+    protected rejectAll(error: Error): void {
+        const pending = [...this.pendingRequests.values()];
+        this.pendingRequests.clear();
+        pending.forEach(replyHandler => replyHandler.reject(error));
+        const streams = [...this.streams.values()];
+        this.streams.clear();
+        streams.forEach(stream => stream.fail(error));
+    }
+
+    /**
+     * Subscribes to the given event of the remote service.
+     * @param event the name of the remote event
+     * @param listener called with the value of each event fired on the remote side
+     * @param onError called if the remote side can't subscribe to the event. The subscription has ended then.
+     * @returns a disposable that ends the remote subscription
+     */
+    subscribe(event: string, listener: (value: any) => void, onError?: (error: any) => void): Disposable {
+        const id = this.nextMessageId++;
+        this.subscriptions.set(id, { listener, onError });
+        this.sendHello();
+        const output = this.writer.getWriteBuffer();
+        this.encoder.subscribe(output, id, event);
+        output.commit();
+        return {
+            dispose: () => {
+                if (this.subscriptions.delete(id)) {
+                    const unsubscribe = this.writer.getWriteBuffer();
+                    this.encoder.unsubscribe(unsubscribe, id);
+                    unsubscribe.commit();
+                }
+            }
+        };
+    }
+
+    /**
+     * Sends a notification. The returned promise resolves when the notification has been sent or has failed,
+     * failures like interceptors refusing the notification are reported as {@link onNotificationError} events.
+     */
+    sendNotification(method: string, args: any[]): Promise<void> {
+        const context: RpcCallContext = { kind: 'notification', method, args, data: new Map() };
+        return composeInterceptors(this.options.interceptors || [], async ({ method, args }) => this.doSendNotification(method, args))(context)
+            .catch(error => this.onNotificationErrorEmitter.fire({ method, args, error }));
+    }
+
+    protected doSendNotification(method: string, args: any[]): void {
         // console.log(`sending notification ${method} with id ${this.nextMessageId + 1}`);
-        const output = this.channel.getWriteBuffer();
+        this.sendHello();
+        const output = this.writer.getWriteBuffer();
         this.encoder.notification(output, this.nextMessageId++, method, args);
         output.commit();
     }
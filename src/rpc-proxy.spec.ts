@@ -0,0 +1,185 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { ChannelPipe } from './channel';
+import { Emitter, Event } from './env/event';
+import { RpcContract, RpcContractError } from './rpc-contract';
+import { RpcInterceptor } from './rpc-interceptor';
+import { NotificationError } from './rpc-protocol';
+import { RpcHandler, RpcProxyHandler, SubscriptionError } from './rpc-proxy';
+
+interface Editor {
+    onSave(uri: string): Promise<string>;
+    notifyChanged(uri: string): void;
+    readonly onDidChange: Event<string>;
+    history(): AsyncIterable<string>;
+}
+
+const EditorContract = new RpcContract<Editor>('Editor', {
+    requests: { onSave: 1, history: 0 },
+    notifications: { notifyChanged: 1 },
+    events: ['onDidChange']
+});
+
+class EditorImpl implements Editor {
+    changed: string[] = [];
+    readonly onDidChangeEmitter = new Emitter<string>();
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    async onSave(uri: string): Promise<string> {
+        return `saved ${uri}`;
+    }
+
+    notifyChanged(uri: string): void {
+        this.changed.push(uri);
+    }
+
+    async *history(): AsyncIterable<string> {
+        yield* this.changed;
+    }
+}
+
+function createProxy<T extends object>(target: object, proxyContract?: RpcContract<T>, targetContract?: RpcContract<any>,
+    notificationErrors: NotificationError[] = []): T {
+    const pipe = new ChannelPipe();
+    const rpcHandler = new RpcHandler(target, targetContract);
+    rpcHandler.onNotificationError(e => notificationErrors.push(e));
+    rpcHandler.onChannelOpen(pipe.right);
+    const handler = new RpcProxyHandler<T>(proxyContract);
+    handler.onChannelOpen(pipe.left);
+    return new Proxy(Object.create(null), handler);
+}
+
+describe('rpc proxy test', () => {
+    it('use contract to distinguish requests from notifications', async () => {
+        const target = new EditorImpl();
+        const proxy = createProxy(target, EditorContract, EditorContract);
+
+        expect(await proxy.onSave('file:///a')).equal('saved file:///a');
+        await proxy.notifyChanged('file:///b');
+        expect(target.changed).deep.equal(['file:///b']);
+    });
+
+    it('iterate streamed results', async () => {
+        const target = new EditorImpl();
+        target.changed.push('file:///a', 'file:///b');
+        const proxy = createProxy(target, EditorContract, EditorContract);
+
+        const history: string[] = [];
+        for await (const uri of proxy.history()) {
+            history.push(uri);
+        }
+        expect(history).deep.equal(['file:///a', 'file:///b']);
+    });
+
+    it('reject undeclared methods on the proxy', async () => {
+        const proxy = createProxy<any>(new EditorImpl(), EditorContract);
+
+        const error = await proxy.close().then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(RpcContractError);
+        const arityError = await proxy.onSave('file:///a', 'extra').then(() => undefined, (e: Error) => e);
+        expect(arityError).instanceOf(RpcContractError);
+    });
+
+    it('subscribe to remote events', async () => {
+        const target = new EditorImpl();
+        const proxy = createProxy(target, EditorContract, EditorContract);
+
+        const received: string[] = [];
+        const subscription = proxy.onDidChange(uri => received.push(uri));
+        await proxy.onSave('file:///a');
+        target.onDidChangeEmitter.fire('file:///b');
+        subscription.dispose();
+        target.onDidChangeEmitter.fire('file:///c');
+
+        expect(received).deep.equal(['file:///b']);
+    });
+
+    it('end remote subscriptions when the channel closes', async () => {
+        const target = new EditorImpl();
+        const pipe = new ChannelPipe();
+        new RpcHandler(target, EditorContract).onChannelOpen(pipe.right);
+        const handler = new RpcProxyHandler<Editor>(EditorContract);
+        handler.onChannelOpen(pipe.left);
+        const proxy: Editor = new Proxy(Object.create(null), handler);
+
+        const received: string[] = [];
+        proxy.onDidChange(uri => received.push(uri));
+        await proxy.onSave('file:///a');
+        pipe.left.close();
+        target.onDidChangeEmitter.fire('file:///b');
+
+        expect(received).deep.equal([]);
+    });
+
+    it('report subscriptions refused by the handler', async () => {
+        const pipe = new ChannelPipe();
+        new RpcHandler(new EditorImpl(), new RpcContract<Editor>('Editor', { requests: { onSave: 1 } })).onChannelOpen(pipe.right);
+        const handler = new RpcProxyHandler<Editor>(EditorContract);
+        const subscriptionErrors: SubscriptionError[] = [];
+        handler.onSubscriptionError(e => subscriptionErrors.push(e));
+        handler.onChannelOpen(pipe.left);
+        const proxy: Editor = new Proxy(Object.create(null), handler);
+
+        proxy.onDidChange(() => { });
+        await proxy.onSave('file:///a');
+
+        expect(subscriptionErrors).length(1);
+        expect(subscriptionErrors[0].event).equal('onDidChange');
+        expect(subscriptionErrors[0].error).instanceOf(RpcContractError);
+    });
+
+    it('report notifications refused on the proxy side', async () => {
+        const target = new EditorImpl();
+        const pipe = new ChannelPipe();
+        new RpcHandler(target, EditorContract).onChannelOpen(pipe.right);
+        const refuse: RpcInterceptor = {
+            intercept: async () => {
+                throw new Error('not allowed');
+            }
+        };
+        const handler = new RpcProxyHandler<Editor>(EditorContract, { interceptors: [refuse] });
+        const notificationErrors: NotificationError[] = [];
+        handler.onNotificationError(e => notificationErrors.push(e));
+        handler.onChannelOpen(pipe.left);
+        const proxy: Editor = new Proxy(Object.create(null), handler);
+
+        expect(await proxy.notifyChanged('file:///a')).equal(undefined);
+        expect(await (proxy as any).notifyChanged('file:///a', 'extra')).equal(undefined);
+        expect(target.changed).deep.equal([]);
+        expect(notificationErrors).length(2);
+        expect(notificationErrors[0].error.message).equal('not allowed');
+        expect(notificationErrors[1].error).instanceOf(RpcContractError);
+    });
+
+    it('reject undeclared methods on the handler', async () => {
+        const target = new EditorImpl();
+        const notificationErrors: NotificationError[] = [];
+        const proxy = createProxy<any>(target, undefined, new RpcContract<Editor>('Editor', { requests: { onSave: 1 } }), notificationErrors);
+
+        // notifications have no reply, so the proxy side cannot see the rejection
+        expect(await proxy.notifyChanged('file:///a')).equal(undefined);
+        expect(target.changed).deep.equal([]);
+        expect(notificationErrors).length(1);
+        expect(notificationErrors[0].method).equal('notifyChanged');
+        expect(notificationErrors[0].args).deep.equal(['file:///a']);
+        expect(notificationErrors[0].error).instanceOf(RpcContractError);
+
+        const error = await proxy.save('file:///a').then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(Error);
+        expect(error.message).contains('save');
+    });
+});
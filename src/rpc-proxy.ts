@@ -14,32 +14,86 @@
  * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
  ********************************************************************************/
 import { Channel } from './channel';
-import { Deferred } from './env/event';
-import { RpcClient, RPCServer } from './rpc-protocol';
+import { Deferred, Disposable, Emitter, Event } from './env/event';
+import { RpcContract } from './rpc-contract';
+import { NotificationError, RpcClient, RpcClientOptions, RPCServer, RPCServerOptions } from './rpc-protocol';
+
+/**
+ * Makes the promise for a request result iterable, so a streamed result can be consumed with
+ * `for await (const item of proxy.method())` as well as with `await proxy.method()`.
+ */
+function iterableResult(result: Promise<any>): Promise<any> & AsyncIterable<any> {
+    return Object.assign(result, {
+        [Symbol.asyncIterator]: (): AsyncIterator<any> => {
+            let iterator: AsyncIterator<any> | undefined;
+            const getIterator = async () => iterator = iterator || (await result)[Symbol.asyncIterator]();
+            return {
+                next: async () => (await getIterator()).next(),
+                return: async (value?: any) => {
+                    const resolved = await getIterator();
+                    return resolved.return ? resolved.return(value) : { done: true, value };
+                }
+            };
+        }
+    });
+}
+
+/**
+ * A subscription to a remote event that the remote side refused
+ */
+export interface SubscriptionError {
+    event: string;
+    error: any;
+}
 
 /**
  * A proxy handler that will send any method invocation on the proxied object
  * as a rcp protocol message over a channel. 
+ * Passing a {@link CancellationToken} as the last argument of a request makes the
+ * request cancellable: the remote target receives a token in its place.
+ * If a {@link RpcContract} is given, it decides whether a method is sent as request
+ * or notification and invocations of undeclared methods are rejected. Properties
+ * declared as events in the contract become subscriptions to the remote event, refused subscriptions
+ * are reported as {@link onSubscriptionError} events. Notifications that cannot be sent are reported as
+ * {@link onNotificationError} events, since callers don't wait for them.
+ * Requests whose results are streamed by the remote side can be iterated with `for await`.
  */
 export class RpcProxyHandler<T extends object> implements ProxyHandler<T> {
     private channelDeferred: Deferred<RpcClient> = new Deferred();
 
+    protected readonly onSubscriptionErrorEmitter: Emitter<SubscriptionError> = new Emitter();
+    get onSubscriptionError(): Event<SubscriptionError> {
+        return this.onSubscriptionErrorEmitter.event;
+    }
+
+    protected readonly onNotificationErrorEmitter: Emitter<NotificationError> = new Emitter();
+    get onNotificationError(): Event<NotificationError> {
+        return this.onNotificationErrorEmitter.event;
+    }
+
+    constructor(protected readonly contract?: RpcContract<T>, protected readonly clientOptions: RpcClientOptions = {}) {
+    }
+
     onChannelOpen(channel: Channel) {
-        const client = new RpcClient(channel);
+        const client = new RpcClient(channel, this.clientOptions);
+        client.onNotificationError(e => this.onNotificationErrorEmitter.fire(e));
         this.channelDeferred.resolve(client);
     }
 
     get?(target: T, p: string | symbol, receiver: any): any {
+        if (this.contract?.isEvent(p.toString())) {
+            return this.createRemoteEvent(p.toString());
+        }
         const isNotify = this.isNotification(p);
         return (...args: any[]) => {
             const method = p.toString();
-            return this.channelDeferred.promise.then((connection: RpcClient) =>
+            const result = this.channelDeferred.promise.then((connection: RpcClient) =>
                 new Promise((resolve, reject) => {
                     try {
+                        this.contract?.validate(method, args, isNotify);
                         if (isNotify) {
                             // console.info(`Send notification ${method}`);
-                            connection.sendNotification(method, args);
-                            resolve(undefined);
+                            connection.sendNotification(method, args).then(resolve);
                         } else {
                             // console.info(`Send request ${method}`);
                             const resultPromise = connection.sendRequest(method, args) as Promise<any>;
@@ -51,10 +105,37 @@ export class RpcProxyHandler<T extends object> implements ProxyHandler<T> {
                             });
                         }
                     } catch (err) {
-                        reject(err);
+                        if (isNotify) {
+                            this.onNotificationErrorEmitter.fire({ method, args, error: err });
+                            resolve(undefined);
+                        } else {
+                            reject(err);
+                        }
                     }
                 })
             );
+            return isNotify ? result : iterableResult(result);
+        };
+    }
+
+    /**
+     * Creates an event that registers each listener as a separate subscription on the remote side.
+     */
+    protected createRemoteEvent(event: string): Event<any> {
+        return (listener: (e: any) => any): Disposable => {
+            let disposed = false;
+            let subscription: Disposable | undefined;
+            this.channelDeferred.promise.then(connection => {
+                if (!disposed) {
+                    subscription = connection.subscribe(event, listener, error => this.onSubscriptionErrorEmitter.fire({ event, error }));
+                }
+            });
+            return {
+                dispose: () => {
+                    disposed = true;
+                    subscription?.dispose();
+                }
+            };
         };
     }
 
@@ -62,31 +143,63 @@ export class RpcProxyHandler<T extends object> implements ProxyHandler<T> {
      * Return whether the given property represents a notification. If true,
      * the promise returned from the invocation will resolve immediatey to `undefined`
      *
-     * A property leads to a notification rather than a method call if its name
-     * begins with `notify` or `on`.
+     * A property leads to a notification rather than a method call if the contract
+     * declares it as a notification or, without a contract, if its name begins with
+     * `notify` or `on`.
      *
      * @param p - The property being called on the proxy.
      * @return Whether `p` represents a notification.
      */
     protected isNotification(p: PropertyKey): boolean {
+        if (this.contract) {
+            return this.contract.isNotification(p.toString());
+        }
         return p.toString().startsWith('notify') || p.toString().startsWith('on');
     }
 }
 
+/**
+ * Dispatches incoming requests and notifications to a target object. If a {@link RpcContract}
+ * is given, only the methods it declares can be invoked.
+ * Since notifications have no reply, notifications rejected by the contract, an interceptor or the target
+ * are reported as {@link onNotificationError} events.
+ */
 export class RpcHandler {
-    constructor(readonly target: any) {
+    protected readonly onNotificationErrorEmitter: Emitter<NotificationError> = new Emitter();
+    get onNotificationError(): Event<NotificationError> {
+        return this.onNotificationErrorEmitter.event;
+    }
+
+    constructor(readonly target: any, protected readonly contract?: RpcContract<any>, protected readonly serverOptions: RPCServerOptions = {}) {
     }
 
     onChannelOpen(channel: Channel) {
-        const server = new RPCServer(channel, (method: string, args: any[]) => this.handleRequest(method, args));
+        const server = new RPCServer(channel, (method: string, args: any[]) => this.handleRequest(method, args),
+            (event: string) => this.getEvent(event), this.serverOptions);
         server.onNotification((e: { method: string, args: any }) => this.onNotification(e.method, e.args));
+        server.onNotificationError(e => this.onNotificationErrorEmitter.fire(e));
     }
 
     protected async handleRequest(method: string, args: any[]): Promise<any> {
+        this.contract?.validate(method, args, false);
         return await this.target[method](...args);
     }
 
-    protected onNotification(method: string, args: any[]): void {
-        this.target[method](args);
+    protected getEvent(event: string): Event<any> {
+        this.contract?.validateEvent(event);
+        const result = this.target[event];
+        if (typeof result !== 'function') {
+            throw new Error(`${event} is not an event`);
+        }
+        return result;
+    }
+
+    protected async onNotification(method: string, args: any[]): Promise<void> {
+        try {
+            this.contract?.validate(method, args, true);
+            await this.target[method](...args);
+        } catch (error) {
+            this.onNotificationErrorEmitter.fire({ method, args, error });
+        }
     }
 }
\ No newline at end of file
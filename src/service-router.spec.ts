@@ -0,0 +1,68 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { ChannelMultiplexer, ChannelPipe, ChannelRefusedError } from './channel';
+import { JsonRpcConnectionHandler } from './connection-handler';
+import { connectToService, ServiceRouter } from './service-router';
+
+interface Greeter {
+    greet(name: string): Promise<string>;
+}
+
+function connect(router: ServiceRouter): ChannelMultiplexer {
+    const pipe = new ChannelPipe();
+    router.listen(new ChannelMultiplexer(pipe.right));
+    return new ChannelMultiplexer(pipe.left);
+}
+
+describe('service router', () => {
+    it('dispatch channels by path', async () => {
+        const router = new ServiceRouter([
+            new JsonRpcConnectionHandler('/services/greeter', () => ({ greet: (name: string) => `Hello ${name}` })),
+            new JsonRpcConnectionHandler('/services/greeter/:language', (client, params) => ({
+                greet: (name: string) => params.language === 'de' ? `Hallo ${name}` : `? ${name}`
+            }))
+        ]);
+        const multiplexer = connect(router);
+
+        const english = await connectToService<Greeter>(multiplexer, '/services/greeter');
+        const german = await connectToService<Greeter>(multiplexer, '/services/greeter/de');
+        expect(await english.proxy.greet('World')).equal('Hello World');
+        expect(await german.proxy.greet('Welt')).equal('Hallo Welt');
+    });
+
+    it('refuse unknown paths', async () => {
+        const router = new ServiceRouter([new JsonRpcConnectionHandler('/services/greeter', () => ({}))]);
+        const multiplexer = connect(router);
+
+        const error = await connectToService(multiplexer, '/services/unknown').then(() => undefined, (e: Error) => e);
+        expect(error).instanceOf(ChannelRefusedError);
+        expect(error?.message).contains("No service at '/services/unknown'");
+    });
+
+    it('match path patterns', () => {
+        const literal = new JsonRpcConnectionHandler('/files/root', () => ({}));
+        const parameterized = new JsonRpcConnectionHandler('/files/:workspace', () => ({}));
+        const wildcard = new JsonRpcConnectionHandler('/files/:workspace/*', () => ({}));
+        const router = new ServiceRouter([wildcard, parameterized, literal]);
+
+        expect(router.match('/files/root')?.handler).equal(literal);
+        expect(router.match('/files/ws1')).deep.equal({ handler: parameterized, params: { workspace: 'ws1' } });
+        expect(router.match('/files/ws1/src/index.ts')).deep.equal({ handler: wildcard, params: { workspace: 'ws1', '*': 'src/index.ts' } });
+        expect(router.match('/files')).equal(undefined);
+        expect(router.match('/other/ws1')).equal(undefined);
+    });
+});
@@ -0,0 +1,174 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Channel, ChannelMultiplexer, ChannelOpenOptions } from './channel';
+import { ConnectionHandler, PathParams } from './connection-handler';
+import { Disposable } from './env/event';
+import { RpcContract } from './rpc-contract';
+import { RpcHandler, RpcProxyHandler } from './rpc-proxy';
+
+interface Route {
+    readonly handler: ConnectionHandler;
+    readonly segments: string[];
+}
+
+/**
+ * Dispatches the channels opened on {@link ChannelMultiplexer}s to the {@link ConnectionHandler} registered
+ * for the channel id, which is the path of a service. Channels for unknown paths are refused.
+ *
+ * Handler paths are matched segment by segment. A `:name` segment matches any single segment and passes it
+ * to the handler as a parameter. A trailing `*` segment matches one or more remaining segments, which are
+ * passed as the `*` parameter. Handlers with a literal path take precedence, patterns are tried in the
+ * order they were added.
+ */
+export class ServiceRouter {
+    protected readonly handlers: Map<string, ConnectionHandler> = new Map();
+    protected readonly routes: Route[] = [];
+
+    constructor(handlers: ConnectionHandler[] = []) {
+        handlers.forEach(handler => this.addHandler(handler));
+    }
+
+    addHandler(handler: ConnectionHandler): Disposable {
+        const segments = handler.path.split('/');
+        if (segments.some(segment => segment === '*' || segment.startsWith(':'))) {
+            const route = { handler, segments };
+            this.routes.push(route);
+            return {
+                dispose: () => {
+                    const index = this.routes.indexOf(route);
+                    if (index >= 0) {
+                        this.routes.splice(index, 1);
+                    }
+                }
+            };
+        }
+        if (this.handlers.has(handler.path)) {
+            throw new Error(`A handler for '${handler.path}' is already registered`);
+        }
+        this.handlers.set(handler.path, handler);
+        return {
+            dispose: () => {
+                if (this.handlers.get(handler.path) === handler) {
+                    this.handlers.delete(handler.path);
+                }
+            }
+        };
+    }
+
+    /**
+     * Returns the handler for the given path and the values of the path parameters, if there is one
+     */
+    match(path: string): { handler: ConnectionHandler, params: PathParams } | undefined {
+        const handler = this.handlers.get(path);
+        if (handler) {
+            return { handler, params: {} };
+        }
+        const segments = path.split('/');
+        for (const route of this.routes) {
+            const params = this.matchSegments(route.segments, segments);
+            if (params) {
+                return { handler: route.handler, params };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Serves the channels opened by the remote side of the given multiplexer
+     */
+    listen(multiplexer: ChannelMultiplexer): Disposable {
+        const acceptanceCheck = multiplexer.registerAcceptanceCheck(id => {
+            if (!this.match(id)) {
+                throw new Error(`No service at '${id}'`);
+            }
+        });
+        const openListener = multiplexer.onDidOpenChannel(channel => {
+            const match = this.match(channel.id);
+            if (match) {
+                match.handler.onConnection(channel, match.params);
+            } else {
+                // the handler has been removed after the channel was accepted
+                channel.close();
+            }
+        });
+        return {
+            dispose: () => {
+                acceptanceCheck.dispose();
+                openListener.dispose();
+            }
+        };
+    }
+
+    protected matchSegments(pattern: string[], segments: string[]): PathParams | undefined {
+        const params: PathParams = {};
+        for (let i = 0; i < pattern.length; i++) {
+            const expected = pattern[i];
+            if (expected === '*' && i === pattern.length - 1) {
+                if (segments.length <= i) {
+                    return undefined;
+                }
+                params['*'] = segments.slice(i).join('/');
+                return params;
+            }
+            if (i >= segments.length) {
+                return undefined;
+            }
+            if (expected.startsWith(':')) {
+                params[expected.substring(1)] = segments[i];
+            } else if (expected !== segments[i]) {
+                return undefined;
+            }
+        }
+        return pattern.length === segments.length ? params : undefined;
+    }
+}
+
+export interface ServiceConnectionOptions<T extends object> extends ChannelOpenOptions {
+    /**
+     * The contract of the remote service
+     */
+    contract?: RpcContract<T>;
+    /**
+     * A local object the remote service can call, like the client of a {@link JsonRpcConnectionHandler}
+     */
+    target?: any;
+    targetContract?: RpcContract<any>;
+}
+
+/**
+ * A connection to a remote service. Closing the channel ends the connection.
+ */
+export interface ServiceConnection<T extends object> {
+    readonly proxy: T;
+    readonly channel: Channel;
+}
+
+/**
+ * Opens a channel for the service at the given path of the remote {@link ServiceRouter} and returns a proxy for it.
+ * The proxy is returned inside a connection object, since a promise can't resolve to a proxy: it would
+ * be taken for a thenable.
+ */
+export async function connectToService<T extends object>(multiplexer: ChannelMultiplexer, path: string,
+    options: ServiceConnectionOptions<T> = {}): Promise<ServiceConnection<T>> {
+    const channel = await multiplexer.open(path, options);
+    const proxyHandler = new RpcProxyHandler<T>(options.contract);
+    const proxy = new Proxy(Object.create(null), proxyHandler);
+    if (options.target) {
+        new RpcHandler(options.target, options.targetContract).onChannelOpen(channel);
+    }
+    proxyHandler.onChannelOpen(channel);
+    return { proxy, channel };
+}
@@ -0,0 +1,122 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import { ChannelPipe } from './channel';
+import { ResumableSession, SessionServer } from './session';
+import { RpcClient, RPCServer } from './rpc-protocol';
+
+/**
+ * Simulates the loss of the connection: both ends notice, and frames in flight are lost
+ */
+function disconnect(pipe: ChannelPipe): void {
+    pipe.right.onCloseEmitter.fire();
+    pipe.left.onCloseEmitter.fire();
+}
+
+describe('resumable session', () => {
+    it('resend frames lost while reconnecting', async () => {
+        const server = new SessionServer();
+        const received: string[] = [];
+        server.onDidOpenSession(session => session.onMessage(buf => received.push(buf.readString())));
+        const client = new ResumableSession('session');
+
+        const first = new ChannelPipe();
+        server.accept(first.right);
+        client.attach(first.left);
+        client.getWriteBuffer().writeString('one').commit();
+
+        // the server side has noticed the disconnect, the client not yet
+        first.right.onCloseEmitter.fire();
+        client.getWriteBuffer().writeString('lost').commit();
+        first.left.onCloseEmitter.fire();
+        client.getWriteBuffer().writeString('buffered').commit();
+        expect(received).deep.equal(['one']);
+
+        const second = new ChannelPipe();
+        server.accept(second.right);
+        client.attach(second.left);
+        expect(received).deep.equal(['one', 'lost', 'buffered']);
+        client.close();
+    });
+
+    it('keep rpc requests alive across reconnects', async () => {
+        const server = new SessionServer();
+        server.onDidOpenSession(session => new RPCServer(session, async (method, args) => args[0] * 2));
+        const session = new ResumableSession('rpc');
+        const resumed: string[] = [];
+        session.onDidDisconnect(() => resumed.push('disconnect'));
+        session.onDidResume(() => resumed.push('resume'));
+        const client = new RpcClient(session);
+
+        const first = new ChannelPipe();
+        server.accept(first.right);
+        session.attach(first.left);
+        expect(await client.sendRequest('double', [1])).equal(2);
+
+        disconnect(first);
+        const result = client.sendRequest('double', [2]);
+        const second = new ChannelPipe();
+        server.accept(second.right);
+        session.attach(second.left);
+        expect(await result).equal(4);
+        expect(resumed).deep.equal(['resume', 'disconnect', 'resume']);
+        session.close();
+    });
+
+    it('end the session when the other side closes it', () => {
+        const server = new SessionServer();
+        const session = new ResumableSession('closed');
+        let closed = false;
+        session.onClose(() => closed = true);
+
+        const pipe = new ChannelPipe();
+        server.accept(pipe.right);
+        session.attach(pipe.left);
+        server.getSession('closed')!.close();
+        expect(closed).equal(true);
+        expect(server.getSession('closed')).equal(undefined);
+    });
+
+    it('end sessions the server does not know anymore', () => {
+        const server = new SessionServer();
+        server.onDidOpenSession(session => session.getWriteBuffer().writeString('welcome').commit());
+        const session = new ResumableSession('forgotten');
+        let closed = false;
+        session.onClose(() => closed = true);
+
+        const first = new ChannelPipe();
+        server.accept(first.right);
+        session.attach(first.left);
+        disconnect(first);
+
+        // the server has been restarted
+        const second = new ChannelPipe();
+        new SessionServer().accept(second.right);
+        session.attach(second.left);
+        expect(closed).equal(true);
+        server.getSession('forgotten')!.close();
+    });
+
+    it('expire sessions without transport', async () => {
+        const session = new ResumableSession('lonely', { expiry: 10 });
+        const pipe = new ChannelPipe();
+        session.attach(pipe.left);
+        const closed = new Promise<void>(resolve => session.onClose(resolve));
+        disconnect(pipe);
+        await closed;
+        expect(session.isEnded).equal(true);
+    });
+});
@@ -0,0 +1,380 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { Channel } from './channel';
+import { Disposable, Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+/**
+ * A session layer that lets a logical channel survive the loss of its transport connection.
+ *
+ * Every data frame sent over the transport carries a sequence number and the sequence number of the
+ * last frame received from the other side, which acknowledges it. Frames that have not been acknowledged
+ * are kept in a replay buffer. When a new transport connection is attached, both sides send a resume
+ * frame with the session id and the last sequence number they have received, and then resend all
+ * frames the other side has missed.
+ */
+
+export enum SessionFrameType {
+    /**
+     * The session id and the sequence number of the last data frame the sender has received
+     */
+    Resume = 1,
+    /**
+     * The sequence number of the frame, the sequence number of the last data frame received by the sender and the payload
+     */
+    Data = 2,
+    /**
+     * The sequence number of the last data frame received by the sender
+     */
+    Ack = 3,
+    /**
+     * The session has ended, followed by the reason
+     */
+    Terminate = 4
+}
+
+export interface SessionOptions {
+    /**
+     * The maximum number of bytes kept for replay until the other side acknowledges them. If more bytes are
+     * unacknowledged, the session can't be resumed anymore. 4 MB by default.
+     */
+    replayBufferSize?: number;
+    /**
+     * Time in ms a session without transport waits for a new connection before it ends. 30 seconds by default.
+     */
+    expiry?: number;
+    /**
+     * Time in ms after which received frames are acknowledged if no data frame has carried the
+     * acknowledgement in the meantime. 200 ms by default.
+     */
+    ackDelay?: number;
+}
+
+interface ReplayEntry {
+    seq: number;
+    data: Uint8Array;
+}
+
+/**
+ * A channel that keeps working across transport connections. Messages written while no transport is
+ * attached are sent once a transport is attached and the session has been resumed.
+ * The session only fires {@link onClose} when it ends for good: when the other side closes it, when it
+ * can't be resumed or when it has been without transport for longer than the expiry time.
+ */
+export class ResumableSession implements Channel {
+    protected transport: Channel | undefined;
+    protected transportRegistrations: Disposable[] = [];
+    protected resumed = false;
+    protected ended = false;
+    protected lastSent = 0;
+    protected lastReceived = 0;
+    protected lastAcknowledged = 0;
+    protected readonly replayBuffer: ReplayEntry[] = [];
+    protected replayBufferBytes = 0;
+    /**
+     * The highest sequence number dropped from the replay buffer before it was acknowledged
+     */
+    protected lastDropped = 0;
+    protected ackTimer: ReturnType<typeof setTimeout> | undefined;
+    protected expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    protected readonly onDidDisconnectEmitter: Emitter<void> = new Emitter();
+    /**
+     * The transport connection has been lost. Messages are buffered until the session is resumed.
+     */
+    get onDidDisconnect(): Event<void> {
+        return this.onDidDisconnectEmitter.event;
+    }
+
+    protected readonly onDidResumeEmitter: Emitter<void> = new Emitter();
+    /**
+     * The session has been resumed over a new transport connection and missed messages have been resent
+     */
+    get onDidResume(): Event<void> {
+        return this.onDidResumeEmitter.event;
+    }
+
+    protected readonly onDidEndEmitter: Emitter<void> = new Emitter();
+    /**
+     * The session has ended, either locally or remotely
+     */
+    get onDidEnd(): Event<void> {
+        return this.onDidEndEmitter.event;
+    }
+
+    constructor(readonly id: string, protected readonly options: SessionOptions = {}) {
+    }
+
+    get isEnded(): boolean {
+        return this.ended;
+    }
+
+    /**
+     * Attaches a new transport connection and resumes the session over it. A previous transport is detached.
+     * @param peerLastReceived the last sequence number the other side has received, if its resume frame has
+     * already been read from the transport
+     */
+    attach(transport: Channel, peerLastReceived?: number): void {
+        if (this.ended) {
+            return;
+        }
+        this.release();
+        this.clearExpiryTimer();
+        this.transport = transport;
+        this.transportRegistrations = [
+            transport.onMessage(buffer => this.handleFrame(buffer)),
+            transport.onClose(() => {
+                if (this.transport === transport) {
+                    this.detach();
+                }
+            }),
+            transport.onError(error => this.onErrorEmitter.fire(error))
+        ];
+        transport.getWriteBuffer().writeByte(SessionFrameType.Resume).writeString(this.id).writeInt(this.lastReceived).commit();
+        if (peerLastReceived !== undefined) {
+            this.handleResume(peerLastReceived);
+        }
+    }
+
+    /**
+     * Stops using the current transport connection. The session waits for a new one until it expires.
+     */
+    detach(): void {
+        if (!this.transport) {
+            return;
+        }
+        this.release();
+        this.onDidDisconnectEmitter.fire();
+        const expiry = this.options.expiry ?? 30000;
+        this.expiryTimer = setTimeout(() => this.end('The session has expired'), expiry);
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer(new Uint8Array(64 * 1024));
+        result.onCommit(buffer => this.send(buffer));
+        return result;
+    }
+
+    close(): void {
+        if (!this.ended && this.transport) {
+            const transport = this.transport;
+            transport.getWriteBuffer().writeByte(SessionFrameType.Terminate).writeString('The session has been closed').commit();
+            this.dispose();
+            transport.close();
+        } else {
+            this.dispose();
+        }
+    }
+
+    protected send(data: Uint8Array): void {
+        if (this.ended) {
+            return;
+        }
+        const seq = ++this.lastSent;
+        this.replayBuffer.push({ seq, data });
+        this.replayBufferBytes += data.byteLength;
+        const maxSize = this.options.replayBufferSize ?? 4 * 1024 * 1024;
+        while (this.replayBufferBytes > maxSize && this.replayBuffer.length > 1) {
+            const dropped = this.replayBuffer.shift()!;
+            this.replayBufferBytes -= dropped.data.byteLength;
+            this.lastDropped = dropped.seq;
+        }
+        if (this.transport && this.resumed) {
+            this.writeData(this.transport, seq, data);
+        }
+    }
+
+    protected writeData(transport: Channel, seq: number, data: Uint8Array): void {
+        transport.getWriteBuffer().writeByte(SessionFrameType.Data).writeInt(seq).writeInt(this.lastReceived).writeBytes(data).commit();
+        this.lastAcknowledged = this.lastReceived;
+    }
+
+    protected handleFrame(buffer: ReadBuffer): void {
+        const type = buffer.readByte();
+        switch (type) {
+            case SessionFrameType.Resume: {
+                const id = buffer.readString();
+                if (id !== this.id) {
+                    this.end(`Expected session ${this.id} but got ${id}`);
+                } else {
+                    this.handleResume(buffer.readInt());
+                }
+                break;
+            }
+            case SessionFrameType.Data: {
+                const seq = buffer.readInt();
+                this.handleAck(buffer.readInt());
+                const data = buffer.readBytes();
+                // frames we have already received are resent after a resume if our ack got lost
+                if (seq === this.lastReceived + 1) {
+                    this.lastReceived = seq;
+                    this.scheduleAck();
+                    this.onMessageEmitter.fire(new ArrayBufferReadBuffer(data));
+                }
+                break;
+            }
+            case SessionFrameType.Ack: {
+                this.handleAck(buffer.readInt());
+                break;
+            }
+            case SessionFrameType.Terminate: {
+                const transport = this.transport;
+                this.dispose();
+                this.onCloseEmitter.fire();
+                transport?.close();
+                break;
+            }
+        }
+    }
+
+    protected handleResume(peerLastReceived: number): void {
+        if (peerLastReceived < this.lastDropped || peerLastReceived > this.lastSent) {
+            this.end('The session cannot be resumed');
+            return;
+        }
+        this.handleAck(peerLastReceived);
+        this.resumed = true;
+        const transport = this.transport!;
+        this.replayBuffer.forEach(entry => this.writeData(transport, entry.seq, entry.data));
+        this.onDidResumeEmitter.fire();
+    }
+
+    protected handleAck(seq: number): void {
+        while (this.replayBuffer.length && this.replayBuffer[0].seq <= seq) {
+            this.replayBufferBytes -= this.replayBuffer.shift()!.data.byteLength;
+        }
+    }
+
+    protected scheduleAck(): void {
+        if (this.ackTimer === undefined) {
+            this.ackTimer = setTimeout(() => {
+                this.ackTimer = undefined;
+                if (this.transport && this.lastAcknowledged < this.lastReceived) {
+                    this.transport.getWriteBuffer().writeByte(SessionFrameType.Ack).writeInt(this.lastReceived).commit();
+                    this.lastAcknowledged = this.lastReceived;
+                }
+            }, this.options.ackDelay ?? 200);
+        }
+    }
+
+    /**
+     * Ends the session because of the remote side or a failure. Tells the other side if possible.
+     */
+    protected end(reason: string): void {
+        if (this.ended) {
+            return;
+        }
+        if (this.transport) {
+            this.transport.getWriteBuffer().writeByte(SessionFrameType.Terminate).writeString(reason).commit();
+        }
+        this.dispose();
+        this.onCloseEmitter.fire();
+    }
+
+    protected dispose(): void {
+        if (!this.ended) {
+            this.ended = true;
+            this.release();
+            this.clearExpiryTimer();
+            this.replayBuffer.length = 0;
+            this.replayBufferBytes = 0;
+            this.onDidEndEmitter.fire();
+        }
+    }
+
+    /**
+     * Stops listening to the current transport
+     */
+    protected release(): void {
+        this.transportRegistrations.forEach(registration => registration.dispose());
+        this.transportRegistrations = [];
+        this.transport = undefined;
+        this.resumed = false;
+        if (this.ackTimer !== undefined) {
+            clearTimeout(this.ackTimer);
+            this.ackTimer = undefined;
+        }
+    }
+
+    protected clearExpiryTimer(): void {
+        if (this.expiryTimer !== undefined) {
+            clearTimeout(this.expiryTimer);
+            this.expiryTimer = undefined;
+        }
+    }
+}
+
+/**
+ * Keeps track of the sessions on the accepting side. Each new transport connection is attached to
+ * the session named in its first resume frame. Sessions are created for unknown session ids unless
+ * the client expects to resume an existing session.
+ */
+export class SessionServer {
+    protected readonly sessions: Map<string, ResumableSession> = new Map();
+
+    protected readonly onDidOpenSessionEmitter: Emitter<ResumableSession> = new Emitter();
+    get onDidOpenSession(): Event<ResumableSession> {
+        return this.onDidOpenSessionEmitter.event;
+    }
+
+    constructor(protected readonly options: SessionOptions = {}) {
+    }
+
+    accept(transport: Channel): void {
+        const registration = transport.onMessage(buffer => {
+            registration.dispose();
+            if (buffer.readByte() !== SessionFrameType.Resume) {
+                transport.close();
+                return;
+            }
+            const id = buffer.readString();
+            const peerLastReceived = buffer.readInt();
+            const existing = this.sessions.get(id);
+            if (existing) {
+                existing.attach(transport, peerLastReceived);
+            } else if (peerLastReceived > 0) {
+                transport.getWriteBuffer().writeByte(SessionFrameType.Terminate).writeString('The session has expired').commit();
+                transport.close();
+            } else {
+                const session = new ResumableSession(id, this.options);
+                this.sessions.set(id, session);
+                session.onDidEnd(() => this.sessions.delete(id));
+                session.attach(transport, peerLastReceived);
+                this.onDidOpenSessionEmitter.fire(session);
+            }
+        });
+    }
+
+    getSession(id: string): ResumableSession | undefined {
+        return this.sessions.get(id);
+    }
+}
@@ -0,0 +1,115 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import * as net from 'net';
+import { PassThrough, Writable } from 'stream';
+import { ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { RpcClient, RPCServer } from './rpc-protocol';
+import { StreamChannel } from './stream-channel';
+
+function frame(value: string): Buffer {
+    const payload = new ArrrayBufferWriteBuffer().writeString(value) as ArrrayBufferWriteBuffer;
+    const contents = payload.getCurrentContents();
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(contents.byteLength);
+    return Buffer.concat([header, contents]);
+}
+
+describe('stream channel', () => {
+    it('reassemble frames from arbitrary chunks', async () => {
+        const input = new PassThrough();
+        const channel = new StreamChannel(input, new PassThrough());
+        const received: string[] = [];
+        channel.onMessage(buf => received.push(buf.readString()));
+
+        // two frames in one chunk
+        input.write(Buffer.concat([frame('first'), frame('second')]));
+        // a frame split into single bytes, including its header
+        for (const byte of frame('third')) {
+            input.write(Buffer.from([byte]));
+        }
+        // the end of a frame and the start of the next one in the same chunk
+        const fourth = frame('fourth');
+        const fifth = frame('fifth');
+        input.write(fourth.subarray(0, 6));
+        input.write(Buffer.concat([fourth.subarray(6), fifth.subarray(0, 2)]));
+        input.write(fifth.subarray(2));
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(received).deep.equal(['first', 'second', 'third', 'fourth', 'fifth']);
+    });
+
+    it('send rpc messages over a socket', async () => {
+        const server = net.createServer(socket => new RPCServer(new StreamChannel(socket), async (method, args) => args[0] + 1));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const socket = net.connect((server.address() as net.AddressInfo).port, '127.0.0.1');
+        const channel = new StreamChannel(socket);
+        const client = new RpcClient(channel);
+
+        expect(await client.sendRequest('increment', [41])).equal(42);
+
+        channel.close();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('fire onClose when the input ends', async () => {
+        const input = new PassThrough();
+        const channel = new StreamChannel(input, new PassThrough());
+        const closed = new Promise<void>(resolve => channel.onClose(resolve));
+        input.end();
+        input.resume();
+        await closed;
+    });
+
+    it('fire onError and onClose when the stream fails', async () => {
+        const input = new PassThrough();
+        const channel = new StreamChannel(input, new PassThrough());
+        const errors: any[] = [];
+        channel.onError(error => errors.push(error));
+        const closed = new Promise<void>(resolve => channel.onClose(resolve));
+        input.destroy(new Error('broken pipe'));
+        await closed;
+        expect(errors.map(error => error.message)).deep.equal(['broken pipe']);
+    });
+
+    it('wait for the output to drain', async () => {
+        const written: Buffer[] = [];
+        let finishWrite: (() => void) | undefined;
+        const output = new Writable({
+            highWaterMark: 1,
+            write: (chunk, encoding, callback) => {
+                written.push(chunk);
+                finishWrite = callback;
+            }
+        });
+        const channel = new StreamChannel(new PassThrough(), output);
+        channel.getWriteBuffer().writeString('hello').commit();
+
+        let writable = false;
+        const whenWritable = channel.whenWritable().then(() => writable = true);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        expect(writable).equal(false);
+
+        while (!writable) {
+            const finish = finishWrite;
+            finishWrite = undefined;
+            finish?.();
+            await new Promise(resolve => setImmediate(resolve));
+        }
+        await whenWritable;
+        expect(Buffer.concat(written).equals(frame('hello'))).equal(true);
+    });
+});
@@ -0,0 +1,185 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { Duplex, Readable, Writable } from 'stream';
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { Channel } from './channel';
+import { Deferred, Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+/**
+ * The size of the big-endian length prefix in front of every frame
+ */
+const FRAME_HEADER_SIZE = 4;
+
+/**
+ * A channel over Node streams, like sockets, pipes or the stdio of a process. Every message is sent as
+ * a frame prefixed with its length, so messages can be told apart in the byte stream.
+ * Writes are never dropped, but when the output stream's buffer is full, {@link whenWritable} waits until
+ * it has drained.
+ */
+export class StreamChannel implements Channel {
+    protected readonly output: Writable;
+    protected readonly separateStreams: boolean;
+    protected readonly chunks: Buffer[] = [];
+    protected bufferedBytes = 0;
+    protected drained: Deferred<void> | undefined;
+    protected closed = false;
+
+    protected readonly dataListener = (chunk: Buffer) => this.handleData(chunk);
+    protected readonly endListener = () => this.handleEnd();
+    protected readonly errorListener = (error: any) => this.onErrorEmitter.fire(error);
+    protected readonly drainListener = () => this.handleDrain();
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    /**
+     * @param input the stream messages are read from
+     * @param output the stream messages are written to. The input stream by default, which must be a `Duplex` then.
+     */
+    constructor(protected readonly input: Readable, output?: Writable) {
+        this.output = output ?? input as Duplex;
+        this.separateStreams = !!output;
+        input.on('data', this.dataListener);
+        input.on('end', this.endListener);
+        input.on('close', this.endListener);
+        input.on('error', this.errorListener);
+        this.output.on('drain', this.drainListener);
+        this.output.on('close', this.endListener);
+        if (this.separateStreams) {
+            this.output.on('error', this.errorListener);
+        }
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer();
+        result.onCommit(buffer => {
+            if (this.closed) {
+                return;
+            }
+            const header = Buffer.alloc(FRAME_HEADER_SIZE);
+            header.writeUInt32BE(buffer.byteLength);
+            this.output.cork();
+            this.output.write(header);
+            const writable = this.output.write(buffer);
+            this.output.uncork();
+            if (!writable && !this.drained) {
+                this.drained = new Deferred();
+            }
+        });
+        return result;
+    }
+
+    whenWritable(): Promise<void> {
+        return this.drained?.promise ?? Promise.resolve();
+    }
+
+    close(): void {
+        if (!this.closed) {
+            this.dispose();
+            this.output.end();
+            if (this.separateStreams) {
+                this.input.destroy();
+            }
+        }
+    }
+
+    protected handleData(chunk: Buffer): void {
+        this.chunks.push(chunk);
+        this.bufferedBytes += chunk.byteLength;
+        // a chunk may contain several frames, or only part of one
+        while (!this.closed && this.bufferedBytes >= FRAME_HEADER_SIZE) {
+            const header = this.peek(FRAME_HEADER_SIZE);
+            const length = header.readUInt32BE(0);
+            if (this.bufferedBytes < FRAME_HEADER_SIZE + length) {
+                break;
+            }
+            this.take(FRAME_HEADER_SIZE);
+            this.onMessageEmitter.fire(new ArrayBufferReadBuffer(this.take(length)));
+        }
+    }
+
+    /**
+     * Returns the first `length` buffered bytes without consuming them
+     */
+    protected peek(length: number): Buffer {
+        if (this.chunks[0].byteLength < length) {
+            this.chunks.splice(0, this.chunks.length, Buffer.concat(this.chunks));
+        }
+        return this.chunks[0];
+    }
+
+    /**
+     * Consumes the first `length` buffered bytes. The result owns its memory, since read buffers
+     * don't support views on larger buffers.
+     */
+    protected take(length: number): Uint8Array {
+        const result = new Uint8Array(length);
+        let offset = 0;
+        while (offset < length) {
+            const chunk = this.chunks[0];
+            const count = Math.min(chunk.byteLength, length - offset);
+            result.set(chunk.subarray(0, count), offset);
+            offset += count;
+            if (count === chunk.byteLength) {
+                this.chunks.shift();
+            } else {
+                this.chunks[0] = chunk.subarray(count);
+            }
+        }
+        this.bufferedBytes -= length;
+        return result;
+    }
+
+    protected handleDrain(): void {
+        const drained = this.drained;
+        this.drained = undefined;
+        drained?.resolve();
+    }
+
+    protected handleEnd(): void {
+        if (!this.closed) {
+            this.dispose();
+            this.onCloseEmitter.fire();
+        }
+    }
+
+    protected dispose(): void {
+        this.closed = true;
+        this.chunks.length = 0;
+        this.bufferedBytes = 0;
+        this.handleDrain();
+        this.input.off('data', this.dataListener);
+        this.input.off('end', this.endListener);
+        this.input.off('close', this.endListener);
+        this.input.off('error', this.errorListener);
+        this.output.off('drain', this.drainListener);
+        this.output.off('close', this.endListener);
+        this.output.off('error', this.errorListener);
+    }
+}
@@ -0,0 +1,104 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import ReconnectingWebSocket from 'reconnecting-websocket';
+import { Deferred } from './env/event';
+import { DEFAULT_HTTP_FALLBACK_OPTIONS, WebSocketClientChannel } from './websocket-client-channel';
+import { ChannelServer } from './websocket-server-channel';
+
+/**
+ * A client channel that uses the http fallback right away and stops polling on request
+ */
+class HttpFallbackClientChannel extends WebSocketClientChannel {
+    stopped = false;
+
+    constructor(protected readonly url: string) {
+        super({ ...DEFAULT_HTTP_FALLBACK_OPTIONS });
+    }
+
+    startHttpFallback(): void {
+        this.useHttpFallback = true;
+        this.doLongPolling(this.url);
+    }
+
+    async doLongPolling(url: string): Promise<void> {
+        if (!this.stopped) {
+            return super.doLongPolling(url);
+        }
+    }
+
+    protected createWebSocketUrl(): string {
+        return '';
+    }
+
+    protected createHttpWebSocketUrl(): string {
+        return this.url;
+    }
+
+    protected createWebSocket(): ReconnectingWebSocket {
+        return { close: () => undefined } as any;
+    }
+}
+
+describe('websocket client channel', () => {
+    let server: http.Server;
+    let url: string;
+
+    before(() => {
+        (globalThis as any).window = { addEventListener: () => undefined, setTimeout, clearTimeout };
+    });
+
+    after(() => {
+        delete (globalThis as any).window;
+    });
+
+    beforeEach(async () => {
+        server = http.createServer();
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/services`;
+    });
+
+    afterEach(async () => {
+        (server as any).closeAllConnections?.();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('open the http fallback connection only once', async () => {
+        const channelServer = new ChannelServer(server);
+        channelServer.onDidConnect(channel => ['first', 'second', 'third'].forEach(message => channel.getWriteBuffer().writeString(message).commit()));
+        const client = new HttpFallbackClientChannel(url);
+        let opened = 0;
+        client.onOpen(() => opened++);
+        const received: string[] = [];
+        const done = new Deferred<void>();
+        client.onMessage(buffer => {
+            received.push(buffer.readString());
+            if (received.length === 3) {
+                client.stopped = true;
+                done.resolve();
+            }
+        });
+
+        // the server only learns about the client when it polls or sends something
+        client.startHttpFallback();
+        await done.promise;
+        expect(received).deep.equal(['first', 'second', 'third']);
+        expect(opened).equal(1);
+        channelServer.dispose();
+    });
+});
@@ -21,6 +21,7 @@ import { v4 as uuid } from 'uuid';
 import { Channel } from './channel';
 import { ReadBuffer, WriteBuffer } from './message-buffer';
 import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { ResumableSession, SessionOptions } from './session';
 
 /**
  * An attempt at a channel implementation over a websocket with fallback to http.
@@ -75,6 +76,14 @@ export class WebSocketClientChannel implements Channel {
         return this.onErrorEmitter.event;
     }
 
+    protected readonly onOpenEmitter: Emitter<void> = new Emitter();
+    /**
+     * The connection has been established or re-established
+     */
+    get onOpen(): Event<void> {
+        return this.onOpenEmitter.event;
+    }
+
     protected readonly socket: ReconnectingWebSocket;
     protected useHttpFallback = false;
     protected websocketErrorCounter = 0;
@@ -129,6 +138,20 @@ export class WebSocketClientChannel implements Channel {
         this.socket.close();
     }
 
+    /**
+     * Creates a {@link ResumableSession} over this channel. The session is resumed whenever the connection
+     * is re-established, so messages lost during a reconnect are resent.
+     */
+    createSession(options?: SessionOptions): ResumableSession {
+        const session = new ResumableSession(uuid(), options);
+        if (!this.useHttpFallback && this.socket.readyState === WebSocket.OPEN) {
+            session.attach(this);
+        }
+        const registration = this.onOpen(() => session.attach(this));
+        session.onDidEnd(() => registration.dispose());
+        return session;
+    }
+
     get ready(): Promise<void> {
         return this.readyDeferred.promise;
     }
@@ -163,13 +186,17 @@ export class WebSocketClientChannel implements Channel {
                 keepalive: true,
                 body: JSON.stringify({ id: this.httpFallbackId, polling: true })
             });
-            if (response.status === 200) {
+            if (response.status === 200 || response.status === 204) {
                 window.clearTimeout(pollingId);
                 if (this.httpFallbackDisconnected) {
+                    this.httpFallbackDisconnected = false;
                     this.fireSocketDidOpen();
                 }
+                // the server answers a poll without a message when a newer poll replaces it
                 const bytes = await response.arrayBuffer();
-                this.onMessageEmitter.fire(new ArrayBufferReadBuffer(new Uint8Array(bytes)));
+                if (bytes.byteLength > 0) {
+                    this.onMessageEmitter.fire(new ArrayBufferReadBuffer(new Uint8Array(bytes)));
+                }
             } else {
                 timeoutDuration = this.httpFallbackOptions?.errorTimeout || 0;
                 this.httpFallbackDisconnected = true;
@@ -217,6 +244,7 @@ export class WebSocketClientChannel implements Channel {
             this.httpFallbackOptions.allowed = false;
         }
         this.readyDeferred.resolve();
+        this.onOpenEmitter.fire();
     }
 
     protected tryReconnect(): void {
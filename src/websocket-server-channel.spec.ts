@@ -0,0 +1,177 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import { expect } from 'chai';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { AuthenticatedChannel, AuthenticationError, BearerTokenAuthenticator, BearerTokenCredentials } from './authentication';
+import { Channel, ChannelMultiplexer } from './channel';
+import { MessageDecoder, MessageEncoder, MessageType } from './message-encoder';
+import { RpcClient, RPCServer } from './rpc-protocol';
+import { ChannelServer, WebSocketChannel } from './websocket-server-channel';
+
+describe('websocket server channel', () => {
+    let server: http.Server;
+    let url: string;
+
+    beforeEach(async () => {
+        server = http.createServer();
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `127.0.0.1:${(server.address() as AddressInfo).port}/services`;
+    });
+
+    afterEach(async () => {
+        // don't let idle keep-alive connections of the http fallback tests hold up the server
+        (server as any).closeAllConnections?.();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    it('accept web socket connections', async () => {
+        const channelServer = new ChannelServer(server);
+        channelServer.onDidConnect(channel => new RPCServer(channel, async (method, args) => `${method}: ${args.join()}`));
+
+        const socket = new WebSocket(`ws://${url}`);
+        await new Promise(resolve => socket.once('open', resolve));
+        const client = new RpcClient(new WebSocketChannel(socket));
+        expect(await client.sendRequest('echo', ['a', 'b'])).equal('echo: a,b');
+
+        socket.close();
+        channelServer.dispose();
+    });
+
+    it('multiplex channels over a web socket', async () => {
+        const channelServer = new ChannelServer(server);
+        channelServer.onDidConnect(channel => {
+            const multiplexer = new ChannelMultiplexer(channel);
+            multiplexer.onDidOpenChannel(opened => new RPCServer(opened, async (method, args) => args[0]));
+        });
+
+        const socket = new WebSocket(`ws://${url}`);
+        await new Promise(resolve => socket.once('open', resolve));
+        const multiplexer = new ChannelMultiplexer(new WebSocketChannel(socket));
+        const [first, second] = await Promise.all([multiplexer.open('first'), multiplexer.open('second')]);
+        expect(await new RpcClient(first).sendRequest('echo', ['first'])).equal('first');
+        expect(await new RpcClient(second).sendRequest('echo', ['second'])).equal('second');
+
+        socket.close();
+        channelServer.dispose();
+    });
+
+    it('report connections refused by the authenticator', async () => {
+        const authenticator = new BearerTokenAuthenticator(token => token === 'valid' ? { name: 'alice' } : undefined);
+        const channelServer = new ChannelServer(server, { authenticator });
+        const connected: Channel[] = [];
+        channelServer.onDidConnect(channel => connected.push(channel));
+        const refused = new Promise<Error>(resolve => channelServer.onDidRefuseConnection(resolve));
+
+        const socket = new WebSocket(`ws://${url}`);
+        await new Promise(resolve => socket.once('open', resolve));
+        const connecting = AuthenticatedChannel.connect(new WebSocketChannel(socket), new BearerTokenCredentials('invalid'));
+        await connecting.catch(() => undefined);
+
+        expect(await refused).instanceOf(AuthenticationError);
+        expect(connected).length(0);
+        channelServer.dispose();
+    });
+
+    it('serve clients over the http fallback', async () => {
+        const channelServer = new ChannelServer(server);
+        channelServer.onDidConnect(channel => new RPCServer(channel, async (method, args) => args[0] * 2));
+
+        const request = new ArrrayBufferWriteBuffer();
+        request.writeString('client-1').writeString('true');
+        new MessageEncoder().request(request, 1, 'double', [21]);
+        const response = await fetch(`http://${url}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: new Uint8Array(request.getCurrentContents())
+        });
+        expect(response.status).equal(200);
+
+        // the server only sends a hello in answer to the hello of a client
+        const poll = await fetch(`http://${url}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: 'client-1', polling: true })
+        });
+        expect(poll.status).equal(200);
+        const reply = new MessageDecoder().parse(new ArrayBufferReadBuffer(new Uint8Array(await poll.arrayBuffer())));
+        expect(reply).deep.include({ type: MessageType.Reply, res: 42 });
+
+        channelServer.dispose();
+    });
+
+    it('close http fallback connections when the client stops polling', async () => {
+        const channelServer = new ChannelServer(server, { httpFallbackExpiry: 10 });
+        const connected = new Promise<Channel>(resolve => channelServer.onDidConnect(resolve));
+
+        const request = new ArrrayBufferWriteBuffer();
+        request.writeString('client-2').writeString('true').writeString('hello');
+        await fetch(`http://${url}`, { method: 'POST', body: new Uint8Array(request.getCurrentContents()) });
+
+        const channel = await connected;
+        await new Promise<void>(resolve => channel.onClose(resolve));
+        channelServer.dispose();
+    });
+
+    it('forget http fallback connections closed by the server', async () => {
+        const channelServer = new ChannelServer(server);
+        const channels: Channel[] = [];
+        channelServer.onDidConnect(channel => channels.push(channel));
+        const poll = () => fetch(`http://${url}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: 'client-3', polling: true })
+        });
+
+        const closed = poll();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(channels).length(1);
+        channels[0].close();
+        expect((await closed).status).equal(410);
+
+        const reopened = poll();
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(channels).length(2);
+        channelServer.dispose();
+        await reopened;
+    });
+
+    it('answer superseded polls without a message', async () => {
+        const channelServer = new ChannelServer(server);
+        const connected = new Promise<Channel>(resolve => channelServer.onDidConnect(resolve));
+        const poll = () => fetch(`http://${url}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: 'client-4', polling: true })
+        });
+
+        const superseded = poll();
+        const channel = await connected;
+        await new Promise(resolve => setTimeout(resolve, 50));
+        const current = poll();
+        const response = await superseded;
+        expect(response.status).equal(204);
+        expect((await response.arrayBuffer()).byteLength).equal(0);
+
+        channel.getWriteBuffer().writeString('message').commit();
+        const next = await current;
+        expect(next.status).equal(200);
+        expect(new ArrayBufferReadBuffer(new Uint8Array(await next.arrayBuffer())).readString()).equal('message');
+        channelServer.dispose();
+    });
+});
@@ -0,0 +1,341 @@
+/********************************************************************************
+ * Copyright (C) 2021 Red Hat, Inc. and others.
+ *
+ * This program and the accompanying materials are made available under the
+ * terms of the Eclipse Public License v. 2.0 which is available at
+ * http://www.eclipse.org/legal/epl-2.0.
+ *
+ * This Source Code may also be made available under the following Secondary
+ * Licenses when the conditions for such availability set forth in the Eclipse
+ * Public License v. 2.0 are satisfied: GNU General Public License, version 2
+ * with the GNU Classpath Exception which is available at
+ * https://www.gnu.org/software/classpath/license.html.
+ *
+ * SPDX-License-Identifier: EPL-2.0 OR GPL-2.0 WITH Classpath-exception-2.0
+ ********************************************************************************/
+import * as http from 'http';
+import { Duplex } from 'stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { ArrayBufferReadBuffer, ArrrayBufferWriteBuffer } from './array-buffer-message-buffer';
+import { AuthenticatedChannel, Authenticator } from './authentication';
+import { Channel } from './channel';
+import { Emitter, Event } from './env/event';
+import { ReadBuffer, WriteBuffer } from './message-buffer';
+
+/**
+ * The Node.js side of the {@link WebSocketClientChannel}: a server accepting web socket connections and
+ * the http long polling fallback used by clients that can't open a web socket.
+ */
+
+/**
+ * A channel over a web socket from the `ws` package. Every message is sent as one binary frame.
+ */
+export class WebSocketChannel implements Channel {
+    protected closed = false;
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    constructor(protected readonly socket: WebSocket) {
+        socket.on('message', (data: RawData) => {
+            const bytes = Array.isArray(data) ? Buffer.concat(data) : data;
+            // copy, since buffers from the socket may be views on a larger pool
+            this.onMessageEmitter.fire(new ArrayBufferReadBuffer(new Uint8Array(bytes)));
+        });
+        socket.on('close', () => {
+            if (!this.closed) {
+                this.closed = true;
+                this.onCloseEmitter.fire();
+            }
+        });
+        socket.on('error', error => this.onErrorEmitter.fire(error));
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer();
+        result.onCommit(buffer => {
+            if (this.socket.readyState === WebSocket.OPEN) {
+                this.socket.send(buffer);
+            }
+        });
+        return result;
+    }
+
+    close(): void {
+        this.closed = true;
+        this.socket.close();
+    }
+}
+
+/**
+ * The server side of an http fallback connection. Messages from the client arrive as separate POST
+ * requests. Messages to the client are queued until the client polls for them, each poll is answered
+ * with a single message. The channel is closed if the client doesn't poll for longer than the expiry time.
+ */
+export class HttpFallbackChannel implements Channel {
+    protected readonly queue: Uint8Array[] = [];
+    protected pendingPoll: http.ServerResponse | undefined;
+    protected expiryTimer: ReturnType<typeof setTimeout> | undefined;
+    protected closed = false;
+
+    protected readonly onCloseEmitter: Emitter<void> = new Emitter();
+    get onClose(): Event<void> {
+        return this.onCloseEmitter.event;
+    }
+
+    protected readonly onErrorEmitter: Emitter<any> = new Emitter();
+    get onError(): Event<any> {
+        return this.onErrorEmitter.event;
+    }
+
+    protected readonly onMessageEmitter: Emitter<ReadBuffer> = new Emitter();
+    get onMessage(): Event<ReadBuffer> {
+        return this.onMessageEmitter.event;
+    }
+
+    protected readonly onDidDisposeEmitter: Emitter<void> = new Emitter();
+    /**
+     * Fired when the channel is closed, either locally or because the client stopped polling
+     */
+    get onDidDispose(): Event<void> {
+        return this.onDidDisposeEmitter.event;
+    }
+
+    constructor(readonly id: string, protected readonly expiry: number) {
+        this.resetExpiry();
+    }
+
+    getWriteBuffer(): WriteBuffer {
+        const result = new ArrrayBufferWriteBuffer();
+        result.onCommit(buffer => this.send(buffer));
+        return result;
+    }
+
+    close(): void {
+        this.dispose();
+    }
+
+    /**
+     * Answers the given poll request with the next message for the client, as soon as there is one
+     */
+    poll(response: http.ServerResponse): void {
+        if (this.closed) {
+            response.writeHead(410).end();
+            return;
+        }
+        this.resetExpiry();
+        // a client only polls once at a time, so an older poll has been given up
+        this.pendingPoll?.writeHead(204).end();
+        this.pendingPoll = undefined;
+        const next = this.queue.shift();
+        if (next) {
+            this.respond(response, next);
+        } else {
+            this.pendingPoll = response;
+            response.on('close', () => {
+                if (this.pendingPoll === response) {
+                    this.pendingPoll = undefined;
+                }
+            });
+        }
+    }
+
+    receive(message: Uint8Array): void {
+        if (!this.closed) {
+            this.resetExpiry();
+            this.onMessageEmitter.fire(new ArrayBufferReadBuffer(message));
+        }
+    }
+
+    protected send(message: Uint8Array): void {
+        if (this.closed) {
+            return;
+        }
+        const poll = this.pendingPoll;
+        if (poll) {
+            this.pendingPoll = undefined;
+            this.respond(poll, message);
+        } else {
+            this.queue.push(message);
+        }
+    }
+
+    protected respond(response: http.ServerResponse, message: Uint8Array): void {
+        response.writeHead(200, { 'Content-Type': 'application/octet-stream' });
+        response.end(Buffer.from(message.buffer, message.byteOffset, message.byteLength));
+    }
+
+    protected resetExpiry(): void {
+        if (this.expiryTimer !== undefined) {
+            clearTimeout(this.expiryTimer);
+        }
+        this.expiryTimer = setTimeout(() => {
+            this.dispose();
+            this.onCloseEmitter.fire();
+        }, this.expiry);
+    }
+
+    protected dispose(): void {
+        if (!this.closed) {
+            this.closed = true;
+            if (this.expiryTimer !== undefined) {
+                clearTimeout(this.expiryTimer);
+            }
+            this.pendingPoll?.writeHead(410).end();
+            this.pendingPoll = undefined;
+            this.queue.length = 0;
+            this.onDidDisposeEmitter.fire();
+        }
+    }
+}
+
+export interface ChannelServerOptions {
+    /**
+     * The path clients connect to. '/services' by default.
+     */
+    path?: string;
+    /**
+     * Whether clients may use the http long polling fallback. True by default.
+     */
+    httpFallback?: boolean;
+    /**
+     * Time in ms after which an http fallback connection is closed if the client hasn't polled.
+     * 30 seconds by default.
+     */
+    httpFallbackExpiry?: number;
+    /**
+     * Authenticates every connection before it is announced. Clients must connect with
+     * {@link AuthenticatedChannel.connect}. Connections failing the authentication are closed
+     * and reported by {@link ChannelServer.onDidRefuseConnection}. Authentication depends on Node.js,
+     * so only Node.js clients can connect: {@link WebSocketClientChannel} doesn't support it.
+     */
+    authenticator?: Authenticator;
+}
+
+/**
+ * Accepts web socket and http fallback connections from {@link WebSocketClientChannel}s on an http server.
+ * Every new connection is announced as a channel, which can be handed to a {@link ChannelMultiplexer} or a
+ * {@link JsonRpcConnectionHandler}.
+ */
+export class ChannelServer {
+    protected readonly webSocketServer = new WebSocketServer({ noServer: true });
+    protected readonly httpFallbackChannels: Map<string, HttpFallbackChannel> = new Map();
+    protected readonly upgradeListener = (request: http.IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(request, socket, head);
+    protected readonly requestListener = (request: http.IncomingMessage, response: http.ServerResponse) => this.handleRequest(request, response);
+
+    protected readonly onDidConnectEmitter: Emitter<Channel> = new Emitter();
+    get onDidConnect(): Event<Channel> {
+        return this.onDidConnectEmitter.event;
+    }
+
+    protected readonly onDidRefuseConnectionEmitter: Emitter<Error> = new Emitter();
+    /**
+     * Fired with the reason when a connection fails the authentication
+     */
+    get onDidRefuseConnection(): Event<Error> {
+        return this.onDidRefuseConnectionEmitter.event;
+    }
+
+    constructor(protected readonly server: http.Server, protected readonly options: ChannelServerOptions = {}) {
+        server.on('upgrade', this.upgradeListener);
+        if (options.httpFallback ?? true) {
+            server.on('request', this.requestListener);
+        }
+    }
+
+    protected get path(): string {
+        return this.options.path ?? '/services';
+    }
+
+    protected matches(request: http.IncomingMessage): boolean {
+        return new URL(request.url || '/', 'http://localhost').pathname === this.path;
+    }
+
+    protected handleUpgrade(request: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+        if (!this.matches(request)) {
+            return;
+        }
+        this.webSocketServer.handleUpgrade(request, socket, head, webSocket => this.connected(new WebSocketChannel(webSocket)));
+    }
+
+    protected async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        if (request.method !== 'POST' || !this.matches(request)) {
+            return;
+        }
+        try {
+            const chunks: Buffer[] = [];
+            for await (const chunk of request) {
+                chunks.push(chunk);
+            }
+            const body = Buffer.concat(chunks);
+            if (request.headers['content-type']?.startsWith('application/json')) {
+                // a poll for the next message: { id, polling: true }
+                const { id } = JSON.parse(body.toString());
+                this.getHttpFallbackChannel(String(id)).poll(response);
+            } else {
+                // a message, preceded by the id of the client and a flag
+                const buffer = new ArrayBufferReadBuffer(new Uint8Array(body));
+                const id = buffer.readString();
+                buffer.readString();
+                this.getHttpFallbackChannel(id).receive(buffer.readRemaining());
+                response.writeHead(200).end();
+            }
+        } catch (error) {
+            console.error('Error handling http fallback request', error);
+            response.writeHead(400).end();
+        }
+    }
+
+    protected getHttpFallbackChannel(id: string): HttpFallbackChannel {
+        let channel = this.httpFallbackChannels.get(id);
+        if (!channel) {
+            const created = new HttpFallbackChannel(id, this.options.httpFallbackExpiry ?? 30000);
+            created.onDidDispose(() => {
+                if (this.httpFallbackChannels.get(id) === created) {
+                    this.httpFallbackChannels.delete(id);
+                }
+            });
+            this.httpFallbackChannels.set(id, created);
+            this.connected(created);
+            channel = created;
+        }
+        return channel;
+    }
+
+    protected async connected(channel: Channel): Promise<void> {
+        if (!this.options.authenticator) {
+            this.onDidConnectEmitter.fire(channel);
+            return;
+        }
+        try {
+            this.onDidConnectEmitter.fire(await AuthenticatedChannel.accept(channel, this.options.authenticator));
+        } catch (error) {
+            // the client has been told the reason and the channel has been closed
+            this.onDidRefuseConnectionEmitter.fire(error);
+        }
+    }
+
+    /**
+     * Stops accepting connections and closes all open connections
+     */
+    dispose(): void {
+        this.server.off('upgrade', this.upgradeListener);
+        this.server.off('request', this.requestListener);
+        this.webSocketServer.clients.forEach(client => client.close());
+        this.webSocketServer.close();
+        this.httpFallbackChannels.forEach(channel => channel.close());
+        this.httpFallbackChannels.clear();
+    }
+}